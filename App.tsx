@@ -5,85 +5,525 @@ import {
 import { 
   Activity, Brain, Map as MapIcon, ShieldAlert, Satellite, Database, 
   RefreshCw, MousePointer2, TrendingUp, Leaf, Thermometer, Zap,
-  CloudDownload, Radio, CheckCircle2, Globe, Flame
+  CloudDownload, Radio, CheckCircle2, Globe, Flame, FileText, Printer, GitCompare, Waypoints
 } from 'lucide-react';
-import { PhysicsEngine, type Point } from './engine/physics';
+import { PhysicsEngine, type Point, type TimedPoint } from './engine/physics';
+import { toEnvMatrix, packMatrix, unpackMatrix } from './engine/raster';
+import { GeoProjection, formatLatLon, type AOIBounds } from './engine/geo';
+import type { CalibrationReport, CalibrationStep, WeightKey } from './engine/calibration';
+import { applyModel } from './engine/model';
+import { HerdSimulator, encounterRisk } from './engine/agents';
+import { topHotspots, type Hotspot, type RiskFactorKey } from './engine/risk';
+import { buildAlerts, DEFAULT_ANOMALY_THRESHOLDS, type Alert, type AlertStatus, type AnomalyThresholds } from './engine/anomaly';
+import { MONTH_LABELS, projectClimate, seasonPhase } from './engine/season';
+import {
+  INCIDENT_PROFILES, INCIDENT_TYPES, SEVERITY_LEVELS, createIncident, decayFactor, severityLevelOf,
+  type Incident, type IncidentSource, type IncidentType, type SeverityLevel
+} from './engine/incidents';
+import {
+  DEFAULT_RESOURCES, AVAILABILITY_PRESETS, availabilityAt,
+  type Resource, type ResourceKind, type AvailabilityPreset
+} from './engine/resources';
+import { importTracks, type HerdTrack } from './services/trackImport';
+import { saveModel, loadStoredModel, downloadModel, readModelFile, clearStoredModel } from './services/modelStore';
+import type { CompareRequest, HerdRequest, HerdSolution, ScenarioComparison } from './engine/solver';
+import { DEFAULT_ENSEMBLE_OPTIONS, type EnsembleResult, type Interval } from './engine/ensemble';
+import { EngineWorkerClient } from './services/engineClient';
+import type { Scenario, ScenarioRun } from './engine/scenario';
+import { saveScenarios, loadStoredScenarios, downloadScenarios, readScenarioFile } from './services/scenarioStore';
+import { getAlgorithmAnalysis } from './services/geminiService';
+import type { AnalysisInput, HerdStatus, SituationReport } from './services/briefing';
+import { ApiNetworkError, fetchUpdate, loadApiBaseUrl, saveApiBaseUrl, DEFAULT_API_BASE_URL } from './services/apiClient';
+import { MOCK_BASE_URL, createMockFetch } from './services/mockApi';
+import {
+  DEFAULT_SYNC_POLICY, appendLog, consecutiveFailures, diffMatrices, nextSyncDelayMs,
+  type LinkStatus, type SyncLogEntry, type SyncPolicy
+} from './services/syncLog';
+import { downloadText, metricsCsv, printReport, renderReportHtml, reportFileName, toGeoJson, type ReportSnapshot } from './services/reportExport';
+
+type EditTool = 'incident' | ResourceKind;
+
+// Stable empty list so MapCanvas doesn't repaint on every render while the risk layer is off
+const NO_HOTSPOTS: Hotspot[] = [];
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'monitor' | 'data' | 'report'>('monitor');
-  const [connectionStatus, setConnectionStatus] = useState<'stable' | 'syncing' | 'error'>('stable');
-  const [isApiLive, setIsApiLive] = useState(false);
+  const [activeTab, setActiveTab] = useState<'monitor' | 'data' | 'report' | 'scenarios'>('monitor');
+  const [connectionStatus, setConnectionStatus] = useState<LinkStatus>('idle');
+  const [syncLog, setSyncLog] = useState<SyncLogEntry[]>([]);
+  const [syncPolicy, setSyncPolicy] = useState<SyncPolicy>(DEFAULT_SYNC_POLICY);
+  const [nextSyncAt, setNextSyncAt] = useState<number | null>(null);
+  const syncInFlight = useRef(false);
+  const [apiBaseUrl, setApiBaseUrl] = useState(loadApiBaseUrl);
+  const mockFetch = useMemo(() => createMockFetch(), []);
   
   // Intelligence States
   const [ndvi, setNdvi] = useState(0.42);
   const [lst, setLst] = useState(38);
-  const [conflictPoints, setConflictPoints] = useState<Point[]>([
-    { x: 0.15, y: 0.88 }, // Bor Sector
-    { x: 0.45, y: 0.65 }, // Jonglei Inland
-    { x: 0.72, y: 0.28 }  // Upper Nile Link
+  const [envMatrix, setEnvMatrix] = useState<number[][] | null>(null);
+
+  // Seasonal Timeline: live readings are anchored to the current month, the scrubber projects them
+  const liveMonth = useMemo(() => new Date().getMonth() + 1, []);
+  const [month, setMonth] = useState(liveMonth);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [riskByMonth, setRiskByMonth] = useState<Record<number, number>>({});
+  const [incidents, setIncidents] = useState<Incident[]>(() => [
+    createIncident({ x: 0.15, y: 0.88 }, 'clash', { id: 'seed-bor', source: 'field-report' }),     // Bor Sector
+    createIncident({ x: 0.45, y: 0.65 }, 'raid', { id: 'seed-jonglei', source: 'field-report' }),  // Jonglei Inland
+    createIncident({ x: 0.72, y: 0.28 }, 'clash', { id: 'seed-upper-nile', source: 'field-report' }) // Upper Nile Link
   ]);
-  const [isEditMode, setIsEditMode] = useState(false);
+  const [incidentDraft, setIncidentDraft] = useState<{ type: IncidentType; severity: number; source: IncidentSource }>({ type: 'clash', severity: SEVERITY_LEVELS.medium, source: 'manual' });
+  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
+  // Incident decay is evaluated against a coarse clock so the field is not rebuilt every frame
+  const [clock, setClock] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), 10 * 60_000);
+    return () => clearInterval(timer);
+  }, []);
+  const [editTool, setEditTool] = useState<EditTool | null>(null);
+  const isEditMode = editTool !== null;
+  // Strategic Water Sinks (Targets) and pasture: shared by the field, sink selection and the map
+  const [resources, setResources] = useState<Resource[]>(DEFAULT_RESOURCES);
+  const [draftShape, setDraftShape] = useState<Point[]>([]);
+  const [selectedResourceId, setSelectedResourceId] = useState<string | null>(null);
+  const [showRiskLayer, setShowRiskLayer] = useState(false);
+  const [showEnsemble, setShowEnsemble] = useState(false);
+  const [ensemble, setEnsemble] = useState<EnsembleResult | null>(null);
+  const [anomalyThresholds, setAnomalyThresholds] = useState<AnomalyThresholds>(DEFAULT_ANOMALY_THRESHOLDS);
+  const [alertStatus, setAlertStatus] = useState<Record<string, AlertStatus>>({});
+  const [aoiBounds, setAoiBounds] = useState<AOIBounds | null>(null);
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  const [tracks, setTracks] = useState<HerdTrack[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [modelRev, setModelRev] = useState(0);
+  const [calibration, setCalibration] = useState<CalibrationReport | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<{ history: CalibrationStep[]; iterations: number } | null>(null);
+  const cancelCalibration = useRef<(() => void) | null>(null);
+  const trackInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<SituationReport | null>(null);
+  const [syncBaseline, setSyncBaseline] = useState<SituationReport | null>(null);
+  const [mapSnapshot, setMapSnapshot] = useState<{ image: string; takenAt: string } | null>(null);
+  const mapCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadStoredScenarios);
+  const [comparePair, setComparePair] = useState<[string | null, string | null]>([null, null]);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [scenarioComparison, setScenarioComparison] = useState<ScenarioComparison | null>(null);
+  const [scenarioRunning, setScenarioRunning] = useState(false);
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+  const [modelSource, setModelSource] = useState<'default' | 'stored' | 'calibrated'>('default');
 
-  // Initialize Engines
-  const engine = useMemo(() => new PhysicsEngine(64, 48), []);
-  const fieldData = useMemo(() => engine.generateField(null, 2, conflictPoints), [ndvi, lst, conflictPoints, engine]);
+  // Initialize Engines (re-projected whenever the backend reports a different sector)
+  const projection = useMemo(() => new GeoProjection(aoiBounds ?? undefined), [aoiBounds]);
+  // Restore the last calibrated model instead of starting from default weights every session.
+  // A model trained for another sector is skipped (engine keeps defaults) and reported instead.
+  const { engine, modelWarning } = useMemo(() => {
+    const e = new PhysicsEngine(64, 48, projection);
+    const stored = loadStoredModel();
+    let warning: string | null = null;
+    if (stored) {
+      try { applyModel(e, stored); } catch (err) { warning = err instanceof Error ? err.message : String(err); }
+    }
+    return { engine: e, modelWarning: warning };
+  }, [projection, modelRev]);
+  useEffect(() => { if (loadStoredModel()) setModelSource('stored'); }, []);
+  const climate = useMemo(() => projectClimate({ ndvi, lst }, liveMonth, month), [ndvi, lst, liveMonth, month]);
 
-  // MULTI-HERD DYNAMICS (Lagrangian Loop)
-  const simulations = useMemo(() => {
-    // Strategic Water Sinks (Targets)
-    const sinks = [
-      { x: 0.88, y: 0.12 }, // Northern Wetland
-      { x: 0.20, y: 0.45 }, // Central Sudd Basin
-      { x: 0.35, y: 0.85 }  // White Nile Mainline
-    ];
-
-    return conflictPoints.map((camp, idx) => {
-      // Each herd gravitates to the nearest resource vadi (Potential Minima)
-      const target = sinks.reduce((prev, curr) => {
-        const d1 = Math.sqrt(Math.pow(camp.x - prev.x, 2) + Math.pow(camp.y - prev.y, 2));
-        const d2 = Math.sqrt(Math.pow(camp.x - curr.x, 2) + Math.pow(camp.y - curr.y, 2));
-        return d1 < d2 ? prev : curr;
-      });
+  // Field, routes and physics are solved in a Web Worker so map edits never block the UI.
+  // The client is created in an effect (not a memo) so StrictMode's double mount gets a live worker.
+  // Scenario comparisons and calibration get workers of their own so they never cancel the live solve.
+  const [engineClient, setEngineClient] = useState<EngineWorkerClient | null>(null);
+  const [scenarioClient, setScenarioClient] = useState<EngineWorkerClient | null>(null);
+  const [calibrationClient, setCalibrationClient] = useState<EngineWorkerClient | null>(null);
+  useEffect(() => {
+    const client = new EngineWorkerClient();
+    const scenarioWorker = new EngineWorkerClient();
+    const calibrationWorker = new EngineWorkerClient();
+    setEngineClient(client);
+    setScenarioClient(scenarioWorker);
+    setCalibrationClient(calibrationWorker);
+    return () => { client.dispose(); scenarioWorker.dispose(); calibrationWorker.dispose(); };
+  }, []);
+  const [fieldData, setFieldData] = useState<number[][]>(() => engine.potentialField);
+  const [herdSlots, setHerdSlots] = useState<(HerdSolution | null)[]>([]);
+  const [solveProgress, setSolveProgress] = useState<{ done: number; total: number } | null>(null);
+  const [solveError, setSolveError] = useState<string | null>(null);
 
-      const ideal = engine.solveLagrangianPath(camp, target);
-      // Simulating observational noise vs predicted physics
-      const observed = ideal.map((p) => ({
-        x: p.x + (Math.random() - 0.5) * 0.045,
-        y: p.y + (Math.random() - 0.5) * 0.045
-      }));
+  const trackToPath = (track: HerdTrack): TimedPoint[] => track.fixes.map(f => ({ ...projection.toPoint(f), time: f.time }));
 
-      const stats = engine.computePhysics(observed);
-      return { id: idx, ideal, observed, stats };
+  // MULTI-HERD DYNAMICS (Lagrangian Loop)
+  // Each herd gravitates to the nearest available resource vadi (Potential Minima); herds stream back one by one
+  useEffect(() => {
+    if (!engineClient) return;
+    // Imported GPS/collar tracks are ground truth and replace the synthetic observations
+    const herds: HerdRequest[] = tracks.length > 0
+      ? tracks.map((track, idx) => {
+        const observed = trackToPath(track);
+        return { id: idx, label: track.id, source: 'track', start: observed[0], observed };
+      })
+      : incidents.map((camp, idx) => ({ id: idx, label: `H-${idx + 1}`, source: 'synthetic', start: { x: camp.x, y: camp.y }, observed: null }));
+    const inputs = { envMatrix, month, incidents, climate, resources, now: clock };
+
+    setSolveProgress({ done: 0, total: herds.length });
+    // The previous ensemble belongs to the old inputs; no corridor is shown until the new one arrives
+    setEnsemble(null);
+    // Returning the cancel handle drops this request as soon as any input changes again
+    return engineClient.solve({
+      grid: engine.gridSize,
+      aoiBounds: projection.bounds,
+      weights: engine.weights,
+      bias: packMatrix(engine.suitabilityBias),
+      envMatrix: envMatrix && packMatrix(envMatrix),
+      month, incidents, climate, resources, now: clock, herds,
+      // Monte Carlo routes are sampled after the deterministic ones, in the same worker request
+      ensemble: showEnsemble ? DEFAULT_ENSEMBLE_OPTIONS : null
+    }, {
+      onField: (field) => {
+        // The main-thread engine adopts the field for agents, anomalies and the risk raster
+        const matrix = unpackMatrix(field, engine.gridSize.cols);
+        engine.adoptField(matrix, inputs);
+        setFieldData(matrix);
+        // Herds keep their previous solution until the new one arrives
+        setHerdSlots(prev => herds.map((_, i) => prev[i] ?? null));
+      },
+      onHerd: (index, total, herd) => {
+        setHerdSlots(prev => prev.map((slot, i) => (i === index ? herd : slot)));
+        setSolveProgress({ done: index + 1, total });
+      },
+      onEnsemble: setEnsemble,
+      onDone: () => { setSolveProgress(null); setSolveError(null); },
+      onError: (message) => { setSolveProgress(null); setSolveError(message); setEnsemble(null); }
     });
-  }, [fieldData, conflictPoints, engine]);
+  }, [engineClient, engine, projection, envMatrix, month, climate, incidents, resources, clock, tracks, showEnsemble]);
+  const simulations = useMemo(() => herdSlots.filter((slot): slot is HerdSolution => slot !== null), [herdSlots]);
 
   // Global Risk Calculation (Aggregated from all detected herds)
+  // AGENT-BASED INTERACTION: all herds move together so converging routes surface as encounters
+  const agentRun = useMemo(() => new HerdSimulator(engine, simulations.map(sim => ({
+    id: sim.id,
+    label: sim.label,
+    start: sim.observed[0] ?? sim.ideal[0],
+    target: sim.ideal[sim.ideal.length - 1]
+  }))).run(), [simulations, engine]);
+
+  // Per-point anomaly scores → structured alerts (status survives recomputation via stable ids)
+  const herdAnomalies = useMemo(() => simulations.map(sim => engine.detectAnomalies(sim.observed, sim.ideal, anomalyThresholds)),
+    [simulations, anomalyThresholds, engine]);
+  const alerts: Alert[] = useMemo(() => simulations
+    .flatMap((sim, i) => buildAlerts(sim.id, sim.label, herdAnomalies[i]))
+    .map(alert => ({ ...alert, status: alertStatus[alert.id] ?? 'open' })), [simulations, herdAnomalies, alertStatus]);
+  const setAlert = (id: string, status: AlertStatus) => setAlertStatus(prev => ({ ...prev, [id]: status }));
+
+  // Per-cell conflict risk forecast
+  const riskRaster = useMemo(() => engine.computeRiskField({
+    incidents,
+    paths: simulations.map(sim => sim.ideal),
+    anomalies: herdAnomalies.flat().filter(a => a.reason !== null).map(a => ({ point: a.point, score: Math.min(1, a.score / 2) }))
+  }), [simulations, herdAnomalies, incidents, engine]);
+  const hotspots = useMemo(() => topHotspots(engine, riskRaster, 5, 4, engine.riskWeights), [riskRaster, engine]);
+
   const globalNaturalness = simulations.reduce((acc, curr) => acc + curr.stats.naturalness, 0) / (simulations.length || 1);
-  const globalRisk = 100 - globalNaturalness;
+  const globalRisk = Math.min(100, 100 - globalNaturalness + encounterRisk(agentRun.events));
+
+  // Situation report: template briefing now, pluggable analysis backend later
+  const analysisInput: AnalysisInput = useMemo(() => ({
+    month,
+    climate,
+    globalRisk,
+    herds: simulations.map(sim => ({
+      id: sim.id, label: sim.label, source: sim.source, metrics: sim.stats,
+      routeStatus: sim.route?.status ?? null,
+      observedAction: engine.actionAlong(sim.observed),
+      idealAction: engine.actionAlong(sim.ideal)
+    })),
+    alerts,
+    hotspots: hotspots.map(h => ({ location: projection.toLatLon(h.point), risk: h.risk, contributions: h.contributions })),
+    encounters: agentRun.events
+  }), [month, climate, globalRisk, simulations, alerts, hotspots, agentRun, engine, projection]);
+  useEffect(() => {
+    let stale = false;
+    getAlgorithmAnalysis(analysisInput, syncBaseline).then(next => { if (!stale) setReport(next); });
+    return () => { stale = true; };
+  }, [analysisInput, syncBaseline]);
+
+  // Report tab: the map only exists on the monitor tab, so it is snapshotted on the way out
+  const openReport = () => {
+    const canvas = mapCanvasRef.current;
+    if (activeTab === 'monitor' && canvas) setMapSnapshot({ image: canvas.toDataURL('image/jpeg', 0.85), takenAt: new Date().toISOString() });
+    setActiveTab('report');
+  };
+  const reportSnapshot: ReportSnapshot | null = useMemo(() => report && ({
+    report,
+    herds: simulations.map(sim => ({ id: sim.id, label: sim.label, source: sim.source, ideal: sim.ideal, observed: sim.observed, metrics: sim.stats })),
+    alerts,
+    incidents,
+    projection,
+    mapImage: mapSnapshot?.image ?? null,
+    takenAt: mapSnapshot?.takenAt ?? 'n/a'
+  }), [report, simulations, alerts, incidents, projection, mapSnapshot]);
+
+  // Scenario planning: the live satellite state, learned bias and herd positions are held fixed,
+  // each scenario brings its own incidents, resources, month and weights
+  useEffect(() => { saveScenarios(scenarios); }, [scenarios]);
+  // Herd starts come from the solve inputs (tracks or camps), not the streamed solutions, and the clock
+  // is read rather than depended on: a comparison is not re-queued per solved herd or per clock tick
+  const scenarioHerds = useMemo(() => (tracks.length > 0
+    ? tracks.map((track, idx) => ({ id: idx, label: track.id, start: projection.toPoint(track.fixes[0]) }))
+    : incidents.map((camp, idx) => ({ id: idx, label: `H-${idx + 1}`, start: { x: camp.x, y: camp.y } }))
+  ), [tracks, incidents, projection]);
+  const herdStartsKey = scenarioHerds.map(h => `${h.label}@${h.start.x.toFixed(6)},${h.start.y.toFixed(6)}`).join(';');
+  const clockRef = useRef(clock);
+  clockRef.current = clock;
+  const scenarioContext: CompareRequest['context'] = useMemo(() => ({
+    grid: engine.gridSize,
+    aoiBounds: projection.bounds,
+    live: { ndvi, lst },
+    liveMonth,
+    herds: scenarioHerds,
+    now: clockRef.current
+  }), [engine, projection, ndvi, lst, liveMonth, herdStartsKey]);
+  // Both scenarios run in the scenario worker; leaving the tab or changing the pair cancels the run.
+  // A scenario that fails to run (e.g. an imported file with unusable geometry) is reported instead of crashing the tab
+  useEffect(() => {
+    if (activeTab !== 'scenarios' || !scenarioClient) return;
+    const [a, b] = comparePair.map(id => scenarios.find(sc => sc.id === id));
+    if (!a || !b) { setScenarioComparison(null); return; }
+    setScenarioRunning(true);
+    const cancel = scenarioClient.compare({
+      context: scenarioContext,
+      bias: packMatrix(engine.suitabilityBias),
+      envMatrix: envMatrix && packMatrix(envMatrix),
+      scenarios: [a, b]
+    }, {
+      onComparison: (comparison) => { setScenarioComparison(comparison); setScenarioError(null); setScenarioRunning(false); },
+      onError: (message) => { setScenarioComparison(null); setScenarioError(`Comparison failed: ${message}`); setScenarioRunning(false); }
+    });
+    return () => { cancel(); setScenarioRunning(false); };
+  }, [activeTab, scenarioClient, comparePair, scenarios, scenarioContext, engine, envMatrix]);
+
+  const saveCurrentScenario = (name: string) => {
+    const scenario: Scenario = {
+      id: `scenario-${Date.now().toString(36)}`,
+      name: name.trim() || `Scenario ${scenarios.length + 1}`,
+      createdAt: new Date().toISOString(),
+      month,
+      incidents: incidents.map(inc => ({ ...inc })),
+      resources: resources.map(res => ({ ...res })),
+      weights: { ...engine.weights }
+    };
+    setScenarios(prev => [...prev, scenario]);
+    // Fill the comparison slots as scenarios are saved: first becomes A, the next B
+    setComparePair(([a, b]) => (a === null ? [scenario.id, b] : b === null ? [a, scenario.id] : [a, b]));
+  };
+
+  const handleScenarioImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await readScenarioFile(file);
+      // Shared files keep their ids; re-importing the same file replaces instead of duplicating
+      setScenarios(prev => [...prev.filter(sc => !imported.some(im => im.id === sc.id)), ...imported]);
+      setScenarioError(null);
+    } catch (err) {
+      setScenarioError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Remember the risk seen at each month so the season cycle can be compared at a glance
+  useEffect(() => { setRiskByMonth({}); }, [envMatrix, incidents, tracks, engine]);
+  useEffect(() => { setRiskByMonth(prev => ({ ...prev, [month]: globalRisk })); }, [month, globalRisk]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setMonth(m => (m % 12) + 1), 1200);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
 
   const syncWithBackend = async () => {
+    if (syncInFlight.current) return;
+    syncInFlight.current = true;
     setConnectionStatus('syncing');
+    const started = performance.now();
+    const entry: SyncLogEntry = {
+      id: Date.now(), at: new Date().toISOString(), latencyMs: 0, bytes: null,
+      rawDims: null, conflicts: null, status: 'ok', error: null, matrix: null
+    };
     try {
-      const response = await fetch("http://localhost:8000/api/v1/update");
-      const data = await response.json();
-      setConflictPoints(data.conflicts); // Live FIRMS data points
+      const { payload: data, bytes } = await fetchUpdate({ baseUrl: apiBaseUrl, fetch: apiBaseUrl === MOCK_BASE_URL ? mockFetch : undefined });
+      entry.latencyMs = performance.now() - started;
+      entry.bytes = bytes;
+      entry.rawDims = { rows: data.ndvi_matrix.length, cols: data.ndvi_matrix[0].length };
+      entry.conflicts = data.conflicts.length;
+      // Validated payload: resample before touching state so a bad matrix never half-applies
+      const matrix = toEnvMatrix(data.ndvi_matrix, engine.gridSize.cols, engine.gridSize.rows);
+      entry.matrix = matrix;
+      // Older backends omit aoi_bounds; keep the current sector in that case
+      const syncProjection = data.aoi_bounds ? new GeoProjection(data.aoi_bounds) : projection;
+      setAoiBounds(syncProjection.bounds);
+      setEnvMatrix(matrix); // GEE satellite basin
+      // Live FIRMS data points: raw lat/lon wins over the backend's pre-projected x/y; intensity weights the barrier.
+      // The FIRMS feed is replaced wholesale; manual entries and field reports survive a sync.
+      const syncedAt = Date.now();
+      const firms = data.conflicts.map((cp, i) => createIncident(
+        cp.lat !== undefined && cp.lon !== undefined ? syncProjection.toPoint({ lat: cp.lat, lon: cp.lon }) : { x: cp.x, y: cp.y },
+        'fire',
+        { id: `firms-${syncedAt}-${i}`, source: 'firms', time: syncedAt, ...(cp.intensity !== undefined ? { intensity: cp.intensity } : {}) }));
+      setIncidents(prev => [...prev.filter(inc => inc.source !== 'firms'), ...firms]);
+      setClock(syncedAt);
       setNdvi(data.current_ndvi);
-      setConnectionStatus('stable');
-      setIsApiLive(true);
+      if (typeof data.current_temp === 'number') setLst(data.current_temp);
+      setSyncBaseline(report); // the trend section compares against the picture before this sync
+      setConnectionStatus('live');
     } catch (e) {
-      setTimeout(() => { setConnectionStatus('stable'); setIsApiLive(true); }, 1200);
+      entry.latencyMs = performance.now() - started;
+      entry.status = e instanceof ApiNetworkError ? 'offline' : 'error';
+      entry.error = e instanceof Error ? e.message : String(e);
+      setConnectionStatus(entry.status);
+    } finally {
+      syncInFlight.current = false;
+      setSyncLog(prev => appendLog(prev, entry));
     }
   };
 
-  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isEditMode) return;
+  // Auto-sync: reschedule after every attempt; failures back off exponentially
+  const syncRef = useRef(syncWithBackend);
+  syncRef.current = syncWithBackend;
+  useEffect(() => {
+    if (!syncPolicy.enabled) { setNextSyncAt(null); return; }
+    const delay = syncLog.length === 0 ? 0 : nextSyncDelayMs(syncPolicy, consecutiveFailures(syncLog));
+    setNextSyncAt(Date.now() + delay);
+    const timer = setTimeout(() => syncRef.current(), delay);
+    return () => clearTimeout(timer);
+  }, [syncPolicy, syncLog]);
+  const lastSync = syncLog[syncLog.length - 1] ?? null;
+  const lastGoodSync = [...syncLog].reverse().find(entry => entry.status === 'ok') ?? null;
+
+  const handleTrackImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file
+    if (!file) return;
+    try {
+      const imported = await importTracks(file, engine.timing.maxGapH);
+      setTracks(imported);
+      setImportError(null);
+      startCalibration(imported.map(trackToPath));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Historical visits shape the bias map, then the weights are calibrated against the same movement.
+  // Both run in the calibration worker: progress streams in per iteration and the run can be cancelled.
+  const startCalibration = (paths: TimedPoint[][]) => {
+    if (!calibrationClient) return;
+    cancelCalibration.current?.();
+    setCalibrationProgress({ history: [], iterations: 0 });
+    const finish = () => { cancelCalibration.current = null; setCalibrationProgress(null); };
+    cancelCalibration.current = calibrationClient.calibrate({
+      grid: engine.gridSize,
+      aoiBounds: projection.bounds,
+      weights: engine.weights,
+      bias: packMatrix(engine.suitabilityBias),
+      envMatrix: envMatrix && packMatrix(envMatrix),
+      month, incidents, climate, resources, now: clock, paths,
+      options: {}
+    }, {
+      onStep: (step, iterations) => setCalibrationProgress(prev => ({ history: [...(prev?.history ?? []), step], iterations })),
+      onCalibrated: (report, bias) => {
+        engine.weights = { ...report.weights };
+        engine.suitabilityBias = unpackMatrix(bias, engine.gridSize.cols);
+        saveModel(engine);
+        setCalibration(report);
+        setModelSource('calibrated');
+        finish();
+        setModelRev(rev => rev + 1);
+      },
+      onError: (message) => { setImportError(`Calibration failed: ${message}`); finish(); }
+    });
+  };
+  const stopCalibration = () => {
+    cancelCalibration.current?.();
+    cancelCalibration.current = null;
+    setCalibrationProgress(null);
+  };
+  // A run started against a replaced engine (other AOI, loaded or reset model) is dropped
+  useEffect(() => () => stopCalibration(), [engine]);
+
+  const handleModelLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const model = await readModelFile(file);
+      applyModel(engine, model);
+      saveModel(engine);
+      setModelSource('stored');
+      setImportError(null);
+      setModelRev(rev => rev + 1);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const resetModel = () => {
+    clearStoredModel();
+    setModelSource('default');
+    setCalibration(null);
+    // A fresh engine instance picks up the default weights and an empty bias map
+    setModelRev(rev => rev + 1);
+  };
+
+  const toMapPoint = (e: React.MouseEvent<HTMLDivElement>): Point => {
     const rect = e.currentTarget.getBoundingClientRect();
-    setConflictPoints(prev => [...prev, { 
-      x: (e.clientX - rect.left) / rect.width, 
-      y: (e.clientY - rect.top) / rect.height 
-    }]);
+    return projection.fromCanvas(e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height);
+  };
+
+  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!editTool) return;
+    const p = toMapPoint(e);
+    if (editTool === 'incident') selectOrAddIncident(p);
+    else if (editTool === 'point') addResource({ kind: 'point', at: p });
+    else setDraftShape(prev => [...prev, p]); // rivers & wetlands are drawn vertex by vertex
+  };
+
+  // Clicking near an existing incident selects it; anywhere else drops a new one with the chosen type, severity & source
+  const selectOrAddIncident = (p: Point) => {
+    const near = incidents
+      .map(inc => ({ inc, d: projection.distanceKm(inc, p) }))
+      .filter(({ d }) => d < 3)
+      .sort((a, b) => a.d - b.d)[0];
+    if (near) { setSelectedIncidentId(near.inc.id); return; }
+    const incident = createIncident(p, incidentDraft.type, { severity: incidentDraft.severity, source: incidentDraft.source });
+    setIncidents(prev => [...prev, incident]);
+    setSelectedIncidentId(incident.id);
+  };
+
+  const updateIncident = (id: string, patch: Partial<Incident>) =>
+    setIncidents(prev => prev.map(inc => (inc.id === id ? { ...inc, ...patch } : inc)));
+
+  const addResource = (shape: { kind: 'point'; at: Point } | { kind: 'river'; path: Point[] } | { kind: 'wetland'; polygon: Point[] }) => {
+    const id = `${shape.kind}-${Date.now().toString(36)}`;
+    const defaults = { point: ['Waterpoint', 0.8, 'dry'], river: ['River', 0.4, 'permanent'], wetland: ['Wetland', 0.5, 'wet'] } as const;
+    const [name, strength, preset] = defaults[shape.kind];
+    const count = resources.filter(r => r.kind === shape.kind).length + 1;
+    setResources(prev => [...prev, { ...shape, id, name: `${name} ${count}`, strength, availability: [...AVAILABILITY_PRESETS[preset]] } as Resource]);
+    setSelectedResourceId(id);
+  };
+
+  const commitDraftShape = () => {
+    if (editTool === 'river' && draftShape.length >= 2) addResource({ kind: 'river', path: draftShape });
+    if (editTool === 'wetland' && draftShape.length >= 3) addResource({ kind: 'wetland', polygon: draftShape });
+    setDraftShape([]);
   };
 
+  const selectTool = (tool: EditTool) => {
+    setDraftShape([]);
+    setEditTool(current => (current === tool ? null : tool));
+  };
+
+  const updateResource = (id: string, patch: Partial<Resource>) =>
+    setResources(prev => prev.map(r => (r.id === id ? { ...r, ...patch } as Resource : r)));
+
   return (
     <div className="flex h-screen bg-[#020617] text-slate-200 overflow-hidden font-sans select-none text-sm">
       {/* Tactical Intelligence Sidebar */}
@@ -101,12 +541,55 @@ export default function App() {
         <nav className="flex-1 p-6 space-y-2">
           <NavBtn active={activeTab === 'monitor'} icon={<MapIcon size={16}/>} label="Live Monitoring" onClick={() => setActiveTab('monitor')} />
           <NavBtn active={activeTab === 'data'} icon={<Radio size={16}/>} label="Satellite Link" onClick={() => setActiveTab('data')} />
+          <NavBtn active={activeTab === 'report'} icon={<FileText size={16}/>} label="Situation Report" onClick={openReport} />
+          <NavBtn active={activeTab === 'scenarios'} icon={<GitCompare size={16}/>} label="Scenario Planning" onClick={() => setActiveTab('scenarios')} />
           
           <div className="pt-8 space-y-6">
             <h3 className="text-[9px] font-black text-slate-500 uppercase tracking-[0.3em] px-4 opacity-50 italic">Grid Overlays</h3>
             <div className="px-4 space-y-3">
-              <ToolToggle active={isEditMode} onClick={() => setIsEditMode(!isEditMode)} icon={<MousePointer2 size={16}/>} label="Manual Incident" />
-              <button onClick={() => setConflictPoints([])} className="w-full flex items-center gap-3 p-3 bg-slate-900/50 hover:bg-rose-500/10 border border-slate-800 rounded-xl transition-colors">
+              <ToolToggle active={editTool === 'incident'} onClick={() => selectTool('incident')} icon={<MousePointer2 size={16}/>} label="Manual Incident" />
+              {editTool === 'incident' && (
+                <IncidentEditor
+                  draft={incidentDraft}
+                  onDraft={setIncidentDraft}
+                  incidents={incidents}
+                  now={clock}
+                  projection={projection}
+                  selectedId={selectedIncidentId}
+                  onSelect={setSelectedIncidentId}
+                  onUpdate={updateIncident}
+                  onDelete={(id: string) => setIncidents(prev => prev.filter(inc => inc.id !== id))}
+                />
+              )}
+              <ToolToggle active={showRiskLayer} onClick={() => setShowRiskLayer(!showRiskLayer)} icon={<Flame size={16}/>} label="Risk Heatmap" />
+              <ToolToggle active={showEnsemble} onClick={() => setShowEnsemble(!showEnsemble)} icon={<Waypoints size={16}/>} label="Route Ensemble" />
+              <ResourceEditor
+                tool={editTool}
+                onSelectTool={selectTool}
+                draftShape={draftShape}
+                onCommitDraft={commitDraftShape}
+                resources={resources}
+                month={month}
+                selectedId={selectedResourceId}
+                onSelect={setSelectedResourceId}
+                onUpdate={updateResource}
+                onDelete={(id: string) => setResources(prev => prev.filter(r => r.id !== id))}
+              />
+              <button onClick={() => trackInputRef.current?.click()} className="w-full flex items-center gap-3 p-3 bg-slate-900/50 hover:bg-emerald-500/10 border border-slate-800 rounded-xl transition-colors">
+                <CloudDownload size={14} className="text-slate-500" /><span className="text-[10px] font-bold uppercase text-slate-400">Import Tracks{tracks.length > 0 ? ` (${tracks.length})` : ''}</span>
+              </button>
+              <input ref={trackInputRef} type="file" accept=".gpx,.geojson,.json,.csv" className="hidden" onChange={handleTrackImport} />
+              <div className="grid grid-cols-3 gap-2">
+                <button onClick={() => downloadModel(engine)} className="p-2 bg-slate-900/50 hover:bg-slate-800 border border-slate-800 rounded-xl text-[9px] font-bold uppercase text-slate-400">Export</button>
+                <button onClick={() => modelInputRef.current?.click()} className="p-2 bg-slate-900/50 hover:bg-slate-800 border border-slate-800 rounded-xl text-[9px] font-bold uppercase text-slate-400">Load</button>
+                <button onClick={resetModel} className="p-2 bg-slate-900/50 hover:bg-rose-500/10 border border-slate-800 rounded-xl text-[9px] font-bold uppercase text-slate-400">Reset</button>
+              </div>
+              <p className="text-[9px] font-bold text-slate-600 uppercase px-1">Model: {modelWarning ? 'default' : modelSource}</p>
+              {modelWarning && <p className="text-[9px] font-bold text-amber-400 uppercase px-1">Stored model not applied: {modelWarning}</p>}
+              <input ref={modelInputRef} type="file" accept=".json" className="hidden" onChange={handleModelLoad} />
+              <input ref={scenarioInputRef} type="file" accept=".json" className="hidden" onChange={handleScenarioImport} />
+              {importError && <p className="text-[9px] font-bold text-rose-400 uppercase px-1">{importError}</p>}
+              <button onClick={() => { setIncidents([]); setTracks([]); }} className="w-full flex items-center gap-3 p-3 bg-slate-900/50 hover:bg-rose-500/10 border border-slate-800 rounded-xl transition-colors">
                 <RefreshCw size={14} className="text-slate-500" /><span className="text-[10px] font-bold uppercase text-slate-400">Purge Data</span>
               </button>
             </div>
@@ -127,13 +610,23 @@ export default function App() {
         <header className="h-20 border-b border-slate-800/40 bg-[#0f172a]/60 backdrop-blur-xl flex items-center justify-between px-12 z-20">
           <div className="flex items-center gap-6">
              <div className="flex items-center gap-3 text-slate-400">
-               <Satellite size={16} className={isApiLive ? "text-emerald-500 animate-spin-slow" : ""} />
-               <span className="text-[10px] font-black uppercase tracking-[0.2em]">{isApiLive ? "Link: NASA VIIRS Active" : "Searching for Uplink..."}</span>
+               <Satellite size={16} className={connectionStatus === 'live' ? "text-emerald-500 animate-spin-slow" : ""} />
+               <span className="text-[10px] font-black uppercase tracking-[0.2em]">{LINK_STATUS_LABELS[connectionStatus]}</span>
+               {lastGoodSync && connectionStatus !== 'live' && <span className="text-[9px] font-bold uppercase text-slate-600">Last good sync {new Date(lastGoodSync.at).toLocaleTimeString()}</span>}
              </div>
+             {(connectionStatus === 'error' || connectionStatus === 'offline') && lastSync?.error && (
+               <div className={`flex items-center gap-2 px-4 py-1.5 border rounded-xl ${connectionStatus === 'offline' ? 'bg-slate-500/10 border-slate-500/40 text-slate-400' : 'bg-rose-500/10 border-rose-500/40 text-rose-400'}`} title={lastSync.error}>
+                 <ShieldAlert size={12} />
+                 <span className="text-[9px] font-black uppercase tracking-widest">{connectionStatus === 'offline' ? 'Offline' : 'Sync Failed'}: {lastSync.error}</span>
+               </div>
+             )}
+             {nextSyncAt !== null && connectionStatus !== 'syncing' && (
+               <span className="text-[9px] font-bold uppercase text-slate-500">Next sync {new Date(nextSyncAt).toLocaleTimeString()}</span>
+             )}
           </div>
           <div className="flex gap-4">
              <div className="flex -space-x-2"><div className="w-6 h-6 rounded-full bg-slate-800 border border-slate-700 flex items-center justify-center text-[8px] font-bold text-slate-500">IOM</div><div className="w-6 h-6 rounded-full bg-emerald-500 border border-slate-700 flex items-center justify-center text-[8px] font-bold text-white">ESA</div></div>
-             <button onClick={syncWithBackend} className="px-6 py-2.5 bg-slate-800 hover:bg-slate-700 text-emerald-400 rounded-xl text-[9px] font-black uppercase border border-slate-700 transition-all active:scale-95">Re-Sync Portal</button>
+             <button onClick={syncWithBackend} disabled={connectionStatus === 'syncing'} className="px-6 py-2.5 bg-slate-800 hover:bg-slate-700 text-emerald-400 rounded-xl text-[9px] font-black uppercase border border-slate-700 transition-all active:scale-95 disabled:opacity-50">{connectionStatus === 'syncing' ? 'Syncing...' : 'Re-Sync Portal'}</button>
           </div>
         </header>
 
@@ -143,13 +636,48 @@ export default function App() {
             <div 
               className={`flex-1 bg-[#020617] rounded-[4rem] border border-slate-800 relative shadow-[0_0_100px_rgba(0,0,0,1)] overflow-hidden transition-all duration-700 ${isEditMode ? 'ring-2 ring-rose-500/20 cursor-crosshair' : ''}`}
               onClick={handleMapClick}
+              onMouseMove={(e) => setHoverPoint(toMapPoint(e))}
+              onMouseLeave={() => setHoverPoint(null)}
             >
-              <MapCanvas field={fieldData} sims={simulations} gridSize={engine.gridSize} camps={conflictPoints} />
+              <MapCanvas canvasRef={mapCanvasRef} field={fieldData} sims={simulations} agents={agentRun} alerts={alerts} risk={showRiskLayer ? riskRaster.risk : null} hotspots={showRiskLayer ? hotspots : NO_HOTSPOTS} gridSize={engine.gridSize} incidents={incidents} now={clock} selectedIncidentId={selectedIncidentId} projection={projection} resources={resources} month={month} draftShape={draftShape} selectedResourceId={selectedResourceId} corridor={showEnsemble ? ensemble?.corridor ?? null : null} />
+
+              {(solveProgress || solveError) && (
+                <div className={`absolute top-10 left-1/2 -translate-x-1/2 px-4 py-2 bg-slate-900/90 backdrop-blur-xl border rounded-2xl text-[9px] font-black uppercase tracking-widest pointer-events-none ${solveError ? 'border-rose-500/40 text-rose-400' : 'border-slate-700 text-slate-400'}`}>
+                  {solveError
+                    ? `Engine error: ${solveError}`
+                    : solveProgress!.done < solveProgress!.total
+                      ? `Solving routes ${solveProgress!.done}/${solveProgress!.total}`
+                      : `Sampling route ensemble ×${DEFAULT_ENSEMBLE_OPTIONS.members}`}
+                </div>
+              )}
+
+              {showRiskLayer && (
+                <div className="absolute top-24 left-12 p-4 bg-slate-900/90 backdrop-blur-xl border border-slate-700 rounded-2xl space-y-2 pointer-events-none">
+                  <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest italic">Conflict Risk Forecast</p>
+                  <div className="w-40 h-2 rounded-full" style={{ background: 'linear-gradient(90deg, rgba(251,191,36,0.1), rgba(251,191,36,0.6), rgba(244,63,94,0.9))' }} />
+                  <div className="flex justify-between text-[8px] font-mono text-slate-500"><span>0.0</span><span>0.5</span><span>1.0</span></div>
+                </div>
+              )}
+
+              {showEnsemble && ensemble && (
+                <div className={`absolute ${showRiskLayer ? 'top-48' : 'top-24'} left-12 p-4 bg-slate-900/90 backdrop-blur-xl border border-slate-700 rounded-2xl space-y-2 pointer-events-none`}>
+                  <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest italic">Route Probability · N={ensemble.members} · seed {ensemble.seed}</p>
+                  <div className="w-40 h-2 rounded-full" style={{ background: 'linear-gradient(90deg, rgba(34,211,238,0.05), rgba(34,211,238,0.4), rgba(34,211,238,0.8))' }} />
+                  <div className="flex justify-between text-[8px] font-mono text-slate-500"><span>0%</span><span>50%</span><span>100%</span></div>
+                </div>
+              )}
+
+              {hoverPoint && (
+                <div className="absolute top-10 left-12 px-5 py-2.5 bg-slate-900/90 backdrop-blur-xl border border-slate-700 rounded-2xl font-mono text-[10px] text-slate-300 pointer-events-none">
+                  {formatLatLon(projection.toLatLon(hoverPoint))}
+                </div>
+              )}
               
               <div className="absolute top-10 right-10 flex flex-col gap-3 min-w-[200px]">
                 <div className="p-6 bg-[#0f172a]/95 backdrop-blur-2xl border border-slate-700 rounded-[2.5rem] shadow-2xl space-y-4">
                   <StatRow label="Active Herds" value={simulations.length.toString()} color="text-rose-500" icon={<Flame size={12}/>} />
-                  <StatRow label="Resource Basin" value={ndvi.toFixed(2)} color="text-emerald-400" icon={<Leaf size={12}/>} />
+                  <StatRow label="Resource Basin" value={climate.ndvi.toFixed(2)} color="text-emerald-400" icon={<Leaf size={12}/>} />
+                  <StatRow label="Surface Temp" value={climate.lst.toFixed(1) + "°C"} color="text-amber-400" icon={<Thermometer size={12}/>} />
                   <StatRow label="Mean Stability" value={globalNaturalness.toFixed(0) + "%"} color="text-indigo-400" icon={<Activity size={12}/>} />
                 </div>
               </div>
@@ -159,13 +687,23 @@ export default function App() {
                  <div className="space-y-1">
                    <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest italic">Physical Flow</p>
                    <div className="flex items-center gap-2"><div className="w-3 h-1 bg-emerald-500 rounded-full" /><span className="text-xs font-black italic text-slate-300 tracking-tighter">Least Action Pred</span></div>
+                   <div className="flex items-center gap-2"><div className="w-3 h-1 bg-amber-400 rounded-full" /><span className="text-xs font-black italic text-slate-300 tracking-tighter">Agent Forecast</span></div>
                  </div>
                  <div className="w-px h-8 bg-slate-800" />
                  <div className="space-y-1 text-sky-400">
                     <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest italic uppercase">Water Infrastructure</p>
-                    <div className="flex items-center gap-3"><div className="w-8 h-2 bg-sky-500/30 rounded-full border border-sky-400/40" /><span className="text-xs font-black italic tracking-widest">White Nile Path</span></div>
+                    <div className="flex items-center gap-3"><div className="w-8 h-2 bg-sky-500/30 rounded-full border border-sky-400/40" /><span className="text-xs font-black italic tracking-widest">{resources.filter(r => availabilityAt(r, month) >= 0.15).length}/{resources.length} Sources Active</span></div>
                  </div>
               </div>
+
+              <SeasonTimeline
+                month={month}
+                liveMonth={liveMonth}
+                isPlaying={isPlaying}
+                riskByMonth={riskByMonth}
+                onChange={(m: number) => { setIsPlaying(false); setMonth(m); }}
+                onTogglePlay={() => setIsPlaying(p => !p)}
+              />
             </div>
 
             {/* STRATEGIC COUNSEL (Kolmogorov Reports) */}
@@ -175,16 +713,140 @@ export default function App() {
                    <Brain size={20} className="text-emerald-500" /><h3 className="text-xs font-black text-white uppercase italic tracking-[0.25em]">Automated Counsel</h3>
                 </div>
                 <div className="space-y-8">
-                  <div className={`p-5 rounded-2xl border-2 transition-colors ${globalRisk > 40 ? 'border-rose-500/50 bg-rose-500/5' : 'border-emerald-500/50 bg-emerald-500/5'}`}>
+                  <div className={`p-5 rounded-2xl border-2 transition-colors ${report && report.riskLevel !== 'low' ? 'border-rose-500/50 bg-rose-500/5' : 'border-emerald-500/50 bg-emerald-500/5'}`}>
                     <p className="text-[10px] font-black uppercase text-slate-400 mb-2">Tactical Summary</p>
-                    <p className="text-[13px] text-white leading-relaxed font-bold italic">
-                      {globalRisk > 40 ? "Regional chaos spike detected. Movement trajectories are deviating from energy minimas. Cattle raids or roadblocks probable." : "Fluid equilibrium detected across monitored sectors. Migration complexity remains below threshold."}
-                    </p>
+                    <p className="text-[13px] text-white leading-relaxed font-bold italic">{report?.headline ?? 'Compiling situation report...'}</p>
+                    {report && <p className="text-[11px] text-slate-400 leading-relaxed mt-2">{report.summary}</p>}
+                    {report?.trend && <p className="text-[10px] text-sky-400 font-bold mt-2">{report.trend.summary}</p>}
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                      <QuickStat label="Drift Entropy" value={(globalRisk/100).toFixed(3)} />
-                     <QuickStat label="Action Ratio" value="1.82:1" />
+                     <QuickStat label="Action Ratio" value={report?.meanActionRatio != null ? `${report.meanActionRatio.toFixed(2)}:1` : '—'} />
+                  </div>
+                  {report && report.herds.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-[10px] font-black uppercase text-slate-400">Herd Status</p>
+                      {report.herds.map(h => (
+                        <div key={h.id} className="space-y-0.5">
+                          <div className="flex justify-between font-mono text-[10px]">
+                            <span className={`font-black uppercase ${HERD_STATUS_COLORS[h.status]}`}>{h.label} · {h.status}</span>
+                            <span className="text-slate-400">{h.actionRatio !== null ? `${h.actionRatio.toFixed(2)}×` : '—'} · {h.distanceKm.toFixed(0)} km</span>
+                          </div>
+                          <p className="text-[9px] text-slate-500">{h.note}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {showEnsemble && ensemble && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-baseline">
+                        <p className="text-[10px] font-black uppercase text-slate-400">Route Confidence</p>
+                        <span className="text-[8px] font-bold uppercase text-slate-500">{(ensemble.confidence * 100).toFixed(0)}% CI · τ {engine.weights.uncertainty.toFixed(2)}</span>
+                      </div>
+                      {ensemble.herds.map(h => (
+                        <div key={h.id} className="p-3 bg-black/40 rounded-xl border border-slate-800 space-y-1 font-mono text-[10px] text-slate-400">
+                          <div className="flex justify-between">
+                            <span className="text-cyan-400 font-black">{h.label}</span>
+                            <span>{h.found}/{h.members} routed{h.sinks[0] ? ` · ${(h.sinks[0].share * 100).toFixed(0)}% → ${h.sinks[0].name}` : ''}</span>
+                          </div>
+                          <div className="flex justify-between"><span>Arrival</span><span>{formatInterval(h.arrivalH, formatHours)}</span></div>
+                          <div className="flex justify-between"><span>Distance</span><span>{formatInterval(h.lengthKm, v => `${v.toFixed(0)} km`)}</span></div>
+                          <div className="flex justify-between"><span>Route spread</span><span>{formatInterval(h.spreadKm, v => `${v.toFixed(1)} km`)}</span></div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase text-slate-400">Herd Positions</p>
+                    {simulations.map(sim => (
+                      <div key={sim.id} className="flex justify-between font-mono text-[10px] text-slate-400">
+                        <span className="text-rose-400 font-black">{sim.label}</span>
+                        <span>{formatLatLon(projection.toLatLon(sim.ideal[0]))}</span>
+                      </div>
+                    ))}
                   </div>
+                  {showRiskLayer && hotspots.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-[10px] font-black uppercase text-slate-400">Risk Hotspots</p>
+                      {hotspots.map((h, i) => (
+                        <div key={i} className="p-3 bg-black/40 rounded-xl border border-slate-800 space-y-1.5">
+                          <div className="flex justify-between font-mono text-[10px]">
+                            <span className="text-rose-400 font-black">#{i + 1} · {(h.risk * 100).toFixed(0)}%</span>
+                            <span className="text-slate-400">{formatLatLon(projection.toLatLon(h.point), 2)}</span>
+                          </div>
+                          <div className="flex h-1.5 rounded-full overflow-hidden bg-slate-800">
+                            {(Object.keys(h.contributions) as RiskFactorKey[]).map(k => (
+                              <div key={k} title={`${k}: ${(h.contributions[k] * 100).toFixed(0)}`} className={RISK_FACTOR_COLORS[k]} style={{ width: `${(h.contributions[k] / Math.max(1e-9, h.risk)) * 100}%` }} />
+                            ))}
+                          </div>
+                          <div className="flex gap-3 text-[8px] font-bold uppercase text-slate-500">
+                            {(Object.keys(h.contributions) as RiskFactorKey[]).map(k => <span key={k}>{k} {(h.contributions[k] * 100).toFixed(0)}</span>)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <AlertsPanel
+                    alerts={alerts}
+                    projection={projection}
+                    thresholds={anomalyThresholds}
+                    onThresholds={setAnomalyThresholds}
+                    onAcknowledge={(id: string) => setAlert(id, 'acknowledged')}
+                    onDismiss={(id: string) => setAlert(id, 'dismissed')}
+                  />
+                  {agentRun.events.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-[10px] font-black uppercase text-slate-400">Predicted Encounters</p>
+                      {agentRun.events.map((ev, i) => (
+                        <div key={i} className="flex justify-between gap-3 font-mono text-[10px] text-slate-400">
+                          <span className={`font-black ${ev.severity > 0.6 ? 'text-rose-400' : 'text-amber-400'}`}>{ev.labels[0]} × {ev.labels[1]}</span>
+                          <span>T+{ev.tick}h · {formatLatLon(projection.toLatLon(ev.location), 2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {calibrationProgress && (
+                    <div className="flex items-center justify-between gap-3 p-2 rounded-lg border border-emerald-500/30 bg-emerald-500/5">
+                      <span className="text-[9px] font-bold uppercase text-emerald-400 animate-pulse">
+                        Calibrating · iteration {calibrationProgress.history[calibrationProgress.history.length - 1]?.iteration ?? 0}/{calibrationProgress.iterations || '…'}
+                        {calibrationProgress.history.length > 0 && ` · NLL ${calibrationProgress.history[calibrationProgress.history.length - 1].trainLoss.toFixed(4)}`}
+                      </span>
+                      <button onClick={stopCalibration} className="px-2 py-1 text-[9px] font-bold uppercase text-rose-400 border border-rose-500/30 rounded">Cancel</button>
+                    </div>
+                  )}
+                  {calibration && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between items-baseline">
+                        <p className="text-[10px] font-black uppercase text-slate-400">IRL Calibration</p>
+                        <span className="text-[9px] font-bold text-slate-500 uppercase">{calibration.trainSize} train / {calibration.validationSize} val · {calibration.stopReason.replace('-', ' ')}</span>
+                      </div>
+                      <div className="h-28">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={calibration.history}>
+                            <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                            <XAxis dataKey="iteration" tick={{ fontSize: 8, fill: '#64748b' }} />
+                            <YAxis tick={{ fontSize: 8, fill: '#64748b' }} width={28} domain={['auto', 'auto']} />
+                            <Tooltip contentStyle={{ background: '#020617', border: '1px solid #1e293b', fontSize: 10 }} formatter={(v) => Number(v).toFixed(4)} />
+                            <Line type="monotone" dataKey="trainLoss" name="Train NLL" stroke="#10b981" strokeWidth={2} dot={false} />
+                            <Line type="monotone" dataKey="validationLoss" name="Val NLL" stroke="#f43f5e" strokeWidth={2} dot={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <div className="grid grid-cols-4 gap-2">
+                        {Object.entries(calibration.weights).map(([k, v]) => <QuickStat key={k} label={calibration.frozen.includes(k as WeightKey) ? `${k} (fixed)` : k} value={v.toFixed(3)} />)}
+                      </div>
+                      {calibration.frozen.length > 0 && <p className="text-[8px] font-bold uppercase text-slate-600">{calibration.frozen.join(', ')} not calibrated: route choice does not depend on it</p>}
+                    </div>
+                  )}
+                  {tracks.length > 0 && <div className="space-y-2">
+                    <p className="text-[10px] font-black uppercase text-slate-400">Observed Movement</p>
+                    {simulations.filter(sim => sim.source === 'track').map(sim => (
+                      <div key={sim.id} className="flex justify-between font-mono text-[10px] text-slate-400">
+                        <span className="text-rose-400 font-black">{sim.label}</span>
+                        <span>{sim.stats.totalDistanceKm.toFixed(1)} km · {(sim.stats.totalDistanceKm / Math.max(1e-9, sim.stats.segments.reduce((acc, sg) => acc + sg.durationH, 0))).toFixed(2)} km/h · dwell {sim.stats.dwellH.toFixed(1)} h · {sim.stats.segments.length} seg</span>
+                      </div>
+                    ))}
+                  </div>}
                 </div>
               </div>
 
@@ -198,17 +860,37 @@ export default function App() {
               </div>
             </aside>
           </div>
+        ) : activeTab === 'report' ? (
+          <ReportView snapshot={reportSnapshot} />
+        ) : activeTab === 'scenarios' ? (
+          <ScenarioView
+            scenarios={scenarios}
+            pair={comparePair}
+            comparison={scenarioComparison}
+            running={scenarioRunning}
+            projection={projection}
+            error={scenarioError}
+            onSave={saveCurrentScenario}
+            onPair={setComparePair}
+            onDelete={(id: string) => {
+              setScenarios(prev => prev.filter(sc => sc.id !== id));
+              setComparePair(([a, b]) => [a === id ? null : a, b === id ? null : b]);
+            }}
+            onExport={(list: Scenario[]) => downloadScenarios(list, list.length === 1 ? `cattle-eye-scenario-${list[0].name.replace(/\W+/g, '-').toLowerCase()}.json` : undefined)}
+            onImport={() => scenarioInputRef.current?.click()}
+          />
         ) : (
           /* Live Matrix Visualization (The Pipe) */
-          <div className="flex-1 p-20 flex flex-col items-center justify-center bg-slate-950">
-             <div className="w-full max-w-4xl space-y-12">
-                <div className="flex items-center gap-6"><Radio size={48} className="text-emerald-500 animate-pulse"/><h2 className="text-6xl font-black italic tracking-tighter uppercase">Telemetry Stream</h2></div>
-                <div className="grid grid-cols-8 gap-4 opacity-30 select-none cursor-default font-mono">
-                  {Array(64).fill(0).map((_, i) => <div key={i} className="p-3 border border-emerald-500/30 text-emerald-400 text-[10px]">{(0.123 + Math.random()*0.8).toFixed(3)}</div>)}
-                </div>
-                <p className="text-sm font-black text-slate-600 uppercase tracking-[0.6em] text-center border-t border-slate-800 pt-10 animate-fade-in">Google Earth Engine // Real-Time JSON Pipeline // TKS-Project</p>
-             </div>
-          </div>
+          <TelemetryStream
+            baseUrl={apiBaseUrl}
+            onBaseUrl={(url: string) => setApiBaseUrl(saveApiBaseUrl(url))}
+            log={syncLog}
+            status={connectionStatus}
+            policy={syncPolicy}
+            nextSyncAt={nextSyncAt}
+            onPolicy={setSyncPolicy}
+            onSync={syncWithBackend}
+          />
         )}
       </main>
     </div>
@@ -217,6 +899,10 @@ export default function App() {
 
 // --- SUB COMPONENTS ---
 
+const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  idle: 'Uplink not synced', syncing: 'Syncing...', live: 'Link: NASA VIIRS Active', offline: 'Uplink offline', error: 'Uplink degraded'
+};
+
 const NavBtn = ({ active, icon, label, onClick }: any) => (
   <button onClick={onClick} className={`w-full flex items-center gap-5 px-8 py-5 rounded-[2rem] transition-all duration-300 ${active ? 'bg-rose-500 text-white shadow-[0_0_25px_#f43f5e30] translate-x-2' : 'text-slate-500 hover:text-slate-200'}`}>
     {icon}
@@ -245,63 +931,705 @@ const QuickStat = ({ label, value }: any) => (
   </div>
 );
 
-// High-Performance Engine Map Canvas
-function MapCanvas({ field, sims, gridSize, camps }: any) {
+const ALERT_COLORS: Record<Alert['severity'], string> = { low: '#facc15', medium: '#fb923c', high: '#f43f5e' };
+
+const HERD_STATUS_COLORS: Record<HerdStatus, string> = {
+  nominal: 'text-emerald-400', watch: 'text-amber-400', stalled: 'text-slate-400', critical: 'text-rose-400'
+};
+
+const formatHours = (h: number) => (h >= 48 ? `${(h / 24).toFixed(1)} d` : `${h.toFixed(0)} h`);
+// Ensemble interval as "mean (lo–hi)"; no routed members → dash
+const formatInterval = (iv: Interval | null, fmt: (v: number) => string) => (iv ? `${fmt(iv.mean)} (${fmt(iv.lo)}–${fmt(iv.hi)})` : '—');
+
+const ALERT_REASON_LABELS: Record<Alert['reason'], string> = {
+  turn: 'Sharp turn', speed: 'Speed spike', deviation: 'Off least-action route', reversal: 'Sudden reversal'
+};
+
+// Anomaly alert list with acknowledge / dismiss and threshold tuning
+function AlertsPanel({ alerts, projection, thresholds, onThresholds, onAcknowledge, onDismiss }: any) {
+  const [showSettings, setShowSettings] = useState(false);
+  const visible = alerts.filter((a: Alert) => a.status !== 'dismissed');
+  const dismissed = alerts.length - visible.length;
+  const slider = (key: keyof AnomalyThresholds, label: string, min: number, max: number, step: number, format: (v: number) => string) => (
+    <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-slate-500">
+      <span className="w-16">{label}</span>
+      <input type="range" min={min} max={max} step={step} value={thresholds[key]} onChange={(e) => onThresholds({ ...thresholds, [key]: Number(e.target.value) })} className="flex-1 accent-rose-500" />
+      <span className="w-12 text-right font-mono text-slate-400">{format(thresholds[key])}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-baseline">
+        <p className="text-[10px] font-black uppercase text-slate-400">Alerts <span className="text-rose-400">{alerts.filter((a: Alert) => a.status === 'open').length}</span></p>
+        <button onClick={() => setShowSettings(!showSettings)} className="text-[9px] font-bold uppercase text-slate-500 hover:text-slate-300">{showSettings ? 'Done' : 'Thresholds'}</button>
+      </div>
+      {showSettings && (
+        <div className="p-3 bg-black/40 rounded-xl border border-slate-800 space-y-2">
+          {slider('turnRad', 'Turn', 0.5, Math.PI, 0.05, v => `${(v * 180 / Math.PI).toFixed(0)}°`)}
+          {slider('reversalRad', 'Reversal', 1.5, Math.PI, 0.05, v => `${(v * 180 / Math.PI).toFixed(0)}°`)}
+          {slider('speedKmh', 'Speed', 1, 20, 0.5, v => `${v.toFixed(1)} km/h`)}
+          {slider('deviationKm', 'Deviation', 1, 30, 0.5, v => `${v.toFixed(1)} km`)}
+        </div>
+      )}
+      <div className="max-h-56 overflow-y-auto space-y-1.5 pr-1">
+        {visible.map((a: Alert) => (
+          <div key={a.id} className={`p-2.5 rounded-xl border ${a.status === 'acknowledged' ? 'border-slate-800 opacity-60' : 'border-slate-700 bg-black/40'}`}>
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-[10px] font-black uppercase" style={{ color: ALERT_COLORS[a.severity] }}>{a.severity} · {a.herdLabel}</span>
+              <span className="text-[9px] font-mono text-slate-500">{a.time !== null ? new Date(a.time).toISOString().slice(5, 16).replace('T', ' ') : `pt ${a.index}`}</span>
+            </div>
+            <p className="text-[10px] text-slate-300 font-bold">{ALERT_REASON_LABELS[a.reason]} <span className="font-mono text-slate-500">×{a.score.toFixed(1)}</span></p>
+            <div className="flex justify-between items-center mt-1">
+              <span className="text-[9px] font-mono text-slate-500">{formatLatLon(projection.toLatLon(a.location), 3)}</span>
+              <div className="flex gap-2">
+                {a.status === 'open' && <button onClick={() => onAcknowledge(a.id)} className="text-[9px] font-bold uppercase text-emerald-400 hover:text-emerald-300">Ack</button>}
+                <button onClick={() => onDismiss(a.id)} className="text-[9px] font-bold uppercase text-slate-500 hover:text-rose-400">Dismiss</button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {visible.length === 0 && <p className="text-[10px] text-slate-600 italic">No active anomalies.</p>}
+      </div>
+      {dismissed > 0 && <p className="text-[9px] text-slate-600 uppercase font-bold">{dismissed} dismissed</p>}
+    </div>
+  );
+}
+
+const RISK_FACTOR_COLORS: Record<RiskFactorKey, string> = {
+  conflict: 'bg-rose-500', density: 'bg-amber-400', scarcity: 'bg-orange-600', anomaly: 'bg-indigo-400'
+};
+
+// Water sources & pasture: draw tools plus an editable list with seasonal availability
+const PRESET_LABELS: Record<AvailabilityPreset, string> = { permanent: 'Permanent', wet: 'Wet Season', dry: 'Dry Season', cyclic: 'Bimodal' };
+
+function ResourceEditor({ tool, onSelectTool, draftShape, onCommitDraft, resources, month, selectedId, onSelect, onUpdate, onDelete }: any) {
+  const presetOf = (res: Resource) =>
+    (Object.keys(AVAILABILITY_PRESETS) as AvailabilityPreset[]).find(k => AVAILABILITY_PRESETS[k].every((v, i) => v === res.availability[i])) ?? 'custom';
+  const minVertices = tool === 'river' ? 2 : 3;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {(['point', 'river', 'wetland'] as ResourceKind[]).map(kind => (
+          <button key={kind} onClick={() => onSelectTool(kind)} className={`p-2 rounded-xl border text-[9px] font-bold uppercase transition-colors ${tool === kind ? 'bg-sky-600 border-sky-400 text-white' : 'bg-slate-900/50 border-slate-800 text-slate-400 hover:bg-sky-500/10'}`}>
+            {kind === 'point' ? 'Water Pt' : kind}
+          </button>
+        ))}
+      </div>
+      {(tool === 'river' || tool === 'wetland') && (
+        <button onClick={onCommitDraft} disabled={draftShape.length < minVertices} className="w-full p-2 rounded-xl border border-sky-500/40 bg-sky-500/10 text-[9px] font-bold uppercase text-sky-300 disabled:opacity-40">
+          Commit {tool} ({draftShape.length}/{minVertices}+ vertices)
+        </button>
+      )}
+      <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+        {resources.map((res: Resource) => (
+          <div key={res.id} onClick={() => onSelect(res.id === selectedId ? null : res.id)} className={`p-2 rounded-lg border cursor-pointer ${res.id === selectedId ? 'border-sky-500/60 bg-sky-500/5' : 'border-slate-800 bg-slate-900/40'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] font-bold text-slate-300 truncate">{res.name}</span>
+              <span className="text-[9px] font-mono text-sky-400">{(availabilityAt(res, month) * 100).toFixed(0)}%</span>
+            </div>
+            {res.id === selectedId && (
+              <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+                <input value={res.name} onChange={(e) => onUpdate(res.id, { name: e.target.value })} className="w-full bg-black/40 border border-slate-800 rounded px-2 py-1 text-[10px] text-slate-200" />
+                <div className="flex items-center gap-2">
+                  <select value={presetOf(res)} onChange={(e) => onUpdate(res.id, { availability: [...AVAILABILITY_PRESETS[e.target.value as AvailabilityPreset]] })} className="flex-1 bg-black/40 border border-slate-800 rounded px-1 py-1 text-[9px] text-slate-300 uppercase">
+                    {(Object.keys(PRESET_LABELS) as AvailabilityPreset[]).map(k => <option key={k} value={k}>{PRESET_LABELS[k]}</option>)}
+                    {presetOf(res) === 'custom' && <option value="custom" disabled>Custom</option>}
+                  </select>
+                  <button onClick={() => onDelete(res.id)} className="px-2 py-1 text-[9px] font-bold uppercase text-rose-400 border border-rose-500/30 rounded">Delete</button>
+                </div>
+                <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-slate-500">
+                  Pull
+                  <input type="range" min={0.1} max={1.5} step={0.05} value={res.strength} onChange={(e) => onUpdate(res.id, { strength: Number(e.target.value) })} className="flex-1 accent-sky-500" />
+                  <span className="font-mono text-slate-400">{res.strength.toFixed(2)}</span>
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Incidents: type, severity & source for new map clicks, plus an editable list of every incident
+const INCIDENT_COLORS: Record<IncidentType, string> = { clash: '#f43f5e', raid: '#c026d3', roadblock: '#f59e0b', fire: '#f97316' };
+const SOURCE_LABELS: Record<IncidentSource, string> = { firms: 'FIRMS', manual: 'Manual', 'field-report': 'Field Report' };
+// FIRMS entries come from the backend sync and are replaced on the next one, so they can't be drawn or relabelled by hand
+const DRAFT_SOURCES: IncidentSource[] = ['manual', 'field-report'];
+
+// A half-life still at the old type's default follows the new type; a hand-tuned one is kept
+const retype = (inc: Incident, type: IncidentType): Partial<Incident> =>
+  ({ type, halfLifeH: inc.halfLifeH === INCIDENT_PROFILES[inc.type].halfLifeH ? INCIDENT_PROFILES[type].halfLifeH : inc.halfLifeH });
+
+function IncidentEditor({ draft, onDraft, incidents, now, projection, selectedId, onSelect, onUpdate, onDelete }: any) {
+  const severityButtons = (value: number, onPick: (severity: number) => void) => (
+    <div className="grid grid-cols-4 gap-1">
+      {(Object.keys(SEVERITY_LEVELS) as SeverityLevel[]).map(level => (
+        <button key={level} onClick={() => onPick(SEVERITY_LEVELS[level])} className={`p-1 rounded border text-[8px] font-bold uppercase ${severityLevelOf(value) === level ? 'bg-rose-600 border-rose-400 text-white' : 'bg-slate-900/50 border-slate-800 text-slate-500'}`}>{level}</button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-1">
+        {INCIDENT_TYPES.map(type => (
+          <button key={type} onClick={() => onDraft({ ...draft, type })} className={`p-1.5 rounded-lg border text-[8px] font-bold uppercase ${draft.type === type ? 'text-white' : 'bg-slate-900/50 border-slate-800 text-slate-500'}`} style={draft.type === type ? { background: INCIDENT_COLORS[type], borderColor: INCIDENT_COLORS[type] } : undefined}>{type}</button>
+        ))}
+      </div>
+      {severityButtons(draft.severity, severity => onDraft({ ...draft, severity }))}
+      <div className="grid grid-cols-2 gap-1">
+        {DRAFT_SOURCES.map(source => (
+          <button key={source} onClick={() => onDraft({ ...draft, source })} className={`p-1 rounded border text-[8px] font-bold uppercase ${draft.source === source ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/50 border-slate-800 text-slate-500'}`}>{SOURCE_LABELS[source]}</button>
+        ))}
+      </div>
+      <p className="text-[8px] font-bold uppercase text-slate-600 px-1">Click the map to add · click an incident to select</p>
+      <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+        {incidents.map((inc: Incident) => (
+          <div key={inc.id} onClick={() => onSelect(inc.id === selectedId ? null : inc.id)} className={`p-2 rounded-lg border cursor-pointer ${inc.id === selectedId ? 'border-rose-500/60 bg-rose-500/5' : 'border-slate-800 bg-slate-900/40'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] font-bold uppercase truncate" style={{ color: INCIDENT_COLORS[inc.type] }}>{inc.type} · {severityLevelOf(inc.severity)}</span>
+              <span className="text-[9px] font-mono text-slate-500">{SOURCE_LABELS[inc.source]} · {(decayFactor(inc, now) * 100).toFixed(0)}%</span>
+            </div>
+            {inc.id === selectedId && (
+              <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+                <p className="text-[9px] font-mono text-slate-500">{formatLatLon(projection.toLatLon(inc), 3)} · {new Date(inc.time).toLocaleString()}{inc.intensity !== undefined ? ` · ${inc.intensity.toFixed(1)} K` : ''}</p>
+                <div className="flex items-center gap-2">
+                  <select value={inc.type} onChange={(e) => onUpdate(inc.id, retype(inc, e.target.value as IncidentType))} className="flex-1 bg-black/40 border border-slate-800 rounded px-1 py-1 text-[9px] text-slate-300 uppercase">
+                    {INCIDENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  {inc.source === 'firms' ? (
+                    <span className="flex-1 px-1 py-1 text-[9px] font-bold text-slate-500 uppercase">{SOURCE_LABELS.firms} (synced)</span>
+                  ) : (
+                    <select value={inc.source} onChange={(e) => onUpdate(inc.id, { source: e.target.value as IncidentSource })} className="flex-1 bg-black/40 border border-slate-800 rounded px-1 py-1 text-[9px] text-slate-300 uppercase">
+                      {DRAFT_SOURCES.map(source => <option key={source} value={source}>{SOURCE_LABELS[source]}</option>)}
+                    </select>
+                  )}
+                  <button onClick={() => { onDelete(inc.id); onSelect(null); }} className="px-2 py-1 text-[9px] font-bold uppercase text-rose-400 border border-rose-500/30 rounded">Delete</button>
+                </div>
+                {severityButtons(inc.severity, severity => onUpdate(inc.id, { severity }))}
+                <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-slate-500">
+                  Half-life
+                  <input type="range" min={6} max={24 * 30} step={6} value={inc.halfLifeH} onChange={(e) => onUpdate(inc.id, { halfLifeH: Number(e.target.value) })} className="flex-1 accent-rose-500" />
+                  <span className="font-mono text-slate-400">{inc.halfLifeH >= 48 ? `${(inc.halfLifeH / 24).toFixed(0)} d` : `${inc.halfLifeH} h`}</span>
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Month scrubber with the Regional Risk Index recorded per month
+function SeasonTimeline({ month, liveMonth, isPlaying, riskByMonth, onChange, onTogglePlay }: any) {
+  return (
+    <div className="absolute bottom-10 right-10 p-6 bg-slate-900/95 backdrop-blur-2xl border border-slate-800 rounded-[2.5rem] shadow-2xl w-[420px] space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <p className="text-[8px] font-black text-slate-500 uppercase tracking-widest italic">Seasonal Timeline</p>
+        <span className={`text-[9px] font-black uppercase tracking-widest ${seasonPhase(month) === 'wet' ? 'text-sky-400' : 'text-amber-400'}`}>{MONTH_LABELS[month - 1]} · {seasonPhase(month)} season</span>
+      </div>
+      <div className="flex items-end gap-1 h-10">
+        {MONTH_LABELS.map((label, i) => {
+          const risk = riskByMonth[i + 1];
+          return (
+            <button key={label} onClick={() => onChange(i + 1)} title={risk !== undefined ? `${label}: ${risk.toFixed(0)}% risk` : label}
+              className={`flex-1 rounded-sm transition-all ${i + 1 === month ? 'ring-1 ring-white' : ''} ${risk !== undefined && risk > 50 ? 'bg-rose-500/70' : 'bg-emerald-500/50'}`}
+              style={{ height: `${risk !== undefined ? Math.max(8, risk) : 8}%` }} />
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={onTogglePlay} className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-black uppercase text-emerald-400 border border-slate-700">{isPlaying ? 'Pause' : 'Play'}</button>
+        <input type="range" min={1} max={12} step={1} value={month} onChange={(e) => onChange(Number(e.target.value))} className="flex-1 accent-emerald-500" />
+        <button onClick={() => onChange(liveMonth)} className="text-[9px] font-black uppercase text-slate-500 hover:text-slate-300">Live</button>
+      </div>
+    </div>
+  );
+}
+
+// Situation report view: snapshot of map, herd table and alerts, with partner-facing exports
+const ReportView = ({ snapshot }: { snapshot: ReportSnapshot | null }) => {
+  const [popupBlocked, setPopupBlocked] = useState(false);
+  if (!snapshot) {
+    return <div className="flex-1 flex items-center justify-center text-[10px] font-black uppercase tracking-widest text-slate-600">Compiling situation report...</div>;
+  }
+  const { report, projection } = snapshot;
+  const activeAlerts = snapshot.alerts.filter(a => a.status !== 'dismissed');
+  const exports: [string, () => void][] = [
+    ['HTML', () => downloadText(renderReportHtml(snapshot), reportFileName(snapshot, 'html'), 'text/html')],
+    ['GeoJSON', () => downloadText(JSON.stringify(toGeoJson(snapshot), null, 2), reportFileName(snapshot, 'geojson'), 'application/geo+json')],
+    ['CSV', () => downloadText(metricsCsv(snapshot), reportFileName(snapshot, 'csv'), 'text/csv')]
+  ];
+
+  return (
+    <div className="flex-1 p-12 overflow-y-auto bg-slate-950">
+      <div className="max-w-5xl mx-auto space-y-10">
+        <div className="flex items-start justify-between gap-8">
+          <div className="space-y-2">
+            <div className="flex items-center gap-4"><FileText size={32} className="text-emerald-500"/><h2 className="text-4xl font-black italic tracking-tighter uppercase">Situation Report</h2></div>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{report.generatedAt} · {MONTH_LABELS[report.month - 1]} · {report.backend} analysis</p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => setPopupBlocked(!printReport(snapshot))} className="flex items-center gap-2 px-4 py-2.5 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/40 rounded-xl text-[9px] font-black uppercase text-emerald-400"><Printer size={12}/> Print / PDF</button>
+            {exports.map(([label, run]) => (
+              <button key={label} onClick={run} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[9px] font-black uppercase text-slate-300">{label}</button>
+            ))}
+          </div>
+        </div>
+        {popupBlocked && <p className="text-[9px] font-bold text-rose-400 uppercase">Pop-up blocked: allow pop-ups to print, or export HTML and print it from the file.</p>}
+
+        <div className={`p-6 rounded-2xl border-2 ${report.riskLevel !== 'low' ? 'border-rose-500/50 bg-rose-500/5' : 'border-emerald-500/50 bg-emerald-500/5'}`}>
+          <p className="text-lg text-white font-bold italic">{report.headline}</p>
+          <p className="text-[12px] text-slate-400 mt-2">{report.summary}</p>
+          {report.trend && <p className="text-[11px] text-sky-400 font-bold mt-2">{report.trend.summary}</p>}
+          <div className="flex gap-8 mt-4 font-mono text-[11px] text-slate-300">
+            <span>Risk {report.globalRisk.toFixed(0)}% ({report.riskLevel})</span>
+            <span>Action ratio {report.meanActionRatio !== null ? `${report.meanActionRatio.toFixed(2)}:1` : '—'}</span>
+            <span>{report.openAlerts} open alerts</span>
+          </div>
+        </div>
+
+        {snapshot.mapImage
+          ? <div className="space-y-2"><img src={snapshot.mapImage} alt="Map snapshot" className="w-full rounded-3xl border border-slate-800" /><p className="text-[9px] font-bold text-slate-600 uppercase">Map snapshot {snapshot.takenAt}</p></div>
+          : <p className="text-[10px] font-bold text-slate-600 uppercase">Open the report from Live Monitoring to include a map snapshot.</p>}
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black uppercase text-slate-400">Herd Statistics</p>
+          <table className="w-full font-mono text-[10px] text-slate-300">
+            <thead className="text-slate-500 uppercase text-left"><tr>{['Herd', 'Status', 'Action ratio', 'S', 'Distance', 'Dwell', 'Stability', 'Entropy'].map(h => <th key={h} className="py-2 pr-4">{h}</th>)}</tr></thead>
+            <tbody>
+              {snapshot.herds.map(herd => {
+                const status = report.herds.find(h => h.id === herd.id);
+                return (
+                  <tr key={herd.id} className="border-t border-slate-800">
+                    <td className="py-2 pr-4 font-black text-rose-400">{herd.label}</td>
+                    <td className={`pr-4 uppercase font-black ${status ? HERD_STATUS_COLORS[status.status] : ''}`}>{status?.status ?? '—'}</td>
+                    <td className="pr-4">{status?.actionRatio != null ? status.actionRatio.toFixed(2) : '—'}</td>
+                    <td className="pr-4">{herd.metrics.s.toFixed(3)}</td>
+                    <td className="pr-4">{herd.metrics.totalDistanceKm.toFixed(1)} km</td>
+                    <td className="pr-4">{herd.metrics.dwellH.toFixed(1)} h</td>
+                    <td className="pr-4">{herd.metrics.naturalness.toFixed(0)}%</td>
+                    <td className="pr-4">{herd.metrics.entropy.toFixed(3)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black uppercase text-slate-400">Alerts ({activeAlerts.length})</p>
+          {activeAlerts.length === 0 && <p className="text-[10px] text-slate-600">No active alerts.</p>}
+          {activeAlerts.map(a => (
+            <div key={a.id} className="flex justify-between font-mono text-[10px] text-slate-400">
+              <span className="font-black" style={{ color: ALERT_COLORS[a.severity] }}>{a.herdLabel} · {ALERT_REASON_LABELS[a.reason]} · {a.status}</span>
+              <span>{a.score.toFixed(2)} · {formatLatLon(projection.toLatLon(a.location), 3)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Scenario planning: saved what-if configurations, A/B comparison with a field diff map and per-herd deltas
+const ScenarioView = ({ scenarios, pair, comparison, running, projection, error, onSave, onPair, onDelete, onExport, onImport }: any) => {
+  const [name, setName] = useState('');
+  const cmp = comparison as ScenarioComparison | null;
+  const signed = (v: number, digits: number) => `${v > 0 ? '+' : ''}${v.toFixed(digits)}`;
+  const deltaColor = (v: number) => (Math.abs(v) < 1e-6 ? 'text-slate-500' : v > 0 ? 'text-rose-400' : 'text-emerald-400');
+
+  return (
+    <div className="flex-1 p-12 overflow-y-auto bg-slate-950">
+      <div className="max-w-6xl mx-auto space-y-10">
+        <div className="flex items-center justify-between gap-8">
+          <div className="flex items-center gap-4"><GitCompare size={32} className="text-emerald-500"/><h2 className="text-4xl font-black italic tracking-tighter uppercase">Scenario Planning</h2></div>
+          <div className="flex gap-2">
+            <button onClick={onImport} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[9px] font-black uppercase text-slate-300">Import JSON</button>
+            <button onClick={() => onExport(scenarios)} disabled={scenarios.length === 0} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[9px] font-black uppercase text-slate-300 disabled:opacity-40">Export All</button>
+          </div>
+        </div>
+        <form className="flex items-center gap-3" onSubmit={(e) => { e.preventDefault(); onSave(name); setName(''); }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Northern wetland dries up" className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-[11px] text-slate-200" />
+          <button type="submit" className="px-5 py-2.5 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/40 rounded-xl text-[9px] font-black uppercase text-emerald-400">Save Current View</button>
+        </form>
+        <p className="text-[9px] font-bold uppercase text-slate-600">A scenario stores the current incidents, water sources, month and model weights. Edit the live map, save, then compare.</p>
+        {error && <p className="text-[9px] font-bold text-rose-400 uppercase">{error}</p>}
+
+        <div className="space-y-1">
+          {scenarios.length === 0 && <p className="text-[10px] text-slate-600">No saved scenarios yet.</p>}
+          {scenarios.map((sc: Scenario) => (
+            <div key={sc.id} className="flex items-center gap-4 p-3 rounded-xl border border-slate-800 bg-slate-900/40">
+              {(['A', 'B'] as const).map((slot, i) => (
+                <button key={slot} onClick={() => onPair(i === 0 ? [sc.id, pair[1]] : [pair[0], sc.id])} className={`w-7 h-7 rounded-lg border text-[10px] font-black ${pair[i] === sc.id ? (i === 0 ? 'bg-emerald-500 border-emerald-400 text-white' : 'bg-amber-500 border-amber-400 text-white') : 'border-slate-700 text-slate-500'}`}>{slot}</button>
+              ))}
+              <span className="flex-1 text-[11px] font-bold text-slate-200">{sc.name}</span>
+              <span className="font-mono text-[9px] text-slate-500">{MONTH_LABELS[sc.month - 1]} · {sc.incidents.length} incidents · {sc.resources.length} sources · safety {sc.weights.safety.toFixed(2)}</span>
+              <button onClick={() => onExport([sc])} className="text-[9px] font-black uppercase text-slate-500 hover:text-slate-300">Share</button>
+              <button onClick={() => onDelete(sc.id)} className="text-[9px] font-black uppercase text-rose-400/70 hover:text-rose-400">Delete</button>
+            </div>
+          ))}
+        </div>
+
+        {cmp ? (
+          <div className="space-y-6">
+            <div className="flex items-center gap-6 text-[10px] font-black uppercase">
+              <span className="text-emerald-400">A · {cmp.a.scenario.name}</span><span className="text-slate-600">vs</span><span className="text-amber-400">B · {cmp.b.scenario.name}</span>
+              {running && <span className="text-slate-500 animate-pulse">Updating…</span>}
+            </div>
+            <ScenarioDiffMap comparison={cmp} projection={projection} />
+            <div className="flex gap-6 text-[9px] font-bold uppercase text-slate-500">
+              <span><span className="inline-block w-3 h-2 bg-rose-500/70 mr-1" />Potential higher in B</span>
+              <span><span className="inline-block w-3 h-2 bg-emerald-500/70 mr-1" />Potential lower in B</span>
+              <span><span className="inline-block w-3 h-1 bg-emerald-400 mr-1" />Route A</span>
+              <span><span className="inline-block w-3 h-1 bg-amber-400 mr-1" />Route B</span>
+            </div>
+            <table className="w-full font-mono text-[10px] text-slate-300">
+              <thead className="text-slate-500 uppercase text-left"><tr>{['Herd', 'Target A → B', 'S (A)', 'ΔS', 'Length (A)', 'ΔLength', 'Risk (A)', 'ΔRisk'].map(h => <th key={h} className="py-2 pr-4">{h}</th>)}</tr></thead>
+              <tbody>
+                {cmp.diff.herds.map(h => (
+                  <tr key={h.id} className="border-t border-slate-800">
+                    <td className="py-2 pr-4 font-black text-rose-400">{h.label}</td>
+                    <td className={`pr-4 ${h.rerouted ? 'text-amber-400 font-black' : 'text-slate-500'}`}>{h.a.sink ?? h.a.status} → {h.b.sink ?? h.b.status}</td>
+                    <td className="pr-4">{h.a.action.toFixed(2)}</td>
+                    <td className={`pr-4 ${deltaColor(h.dAction)}`}>{signed(h.dAction, 2)}</td>
+                    <td className="pr-4">{h.a.lengthKm.toFixed(1)} km</td>
+                    <td className={`pr-4 ${deltaColor(h.dLengthKm)}`}>{signed(h.dLengthKm, 1)} km</td>
+                    <td className="pr-4">{(h.a.risk * 100).toFixed(0)}%</td>
+                    <td className={`pr-4 ${deltaColor(h.dRisk)}`}>{signed(h.dRisk * 100, 0)} pts</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-[10px] font-bold uppercase text-slate-600">{running ? 'Running comparison…' : 'Pick scenario A and B to compare.'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Potential-field difference (B - A) with both scenarios' least-action routes on top
+function ScenarioDiffMap({ comparison, projection }: any) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const { a, b, diff } = comparison as ScenarioComparison;
+    const w = canvas.width; const h = canvas.height;
+    const rows = diff.fieldDelta.length; const cols = diff.fieldDelta[0].length;
+    const cw = w / cols; const ch = h / rows;
+    const span = Math.max(1e-6, ...diff.fieldDelta.flat().map(Math.abs));
+
+    ctx.fillStyle = '#020617'; ctx.fillRect(0, 0, w, h);
+    diff.fieldDelta.forEach((row, r) => row.forEach((d, c) => {
+      const t = d / span;
+      if (Math.abs(t) < 0.02) return;
+      ctx.fillStyle = t > 0 ? `rgba(244, 63, 94, ${t * 0.8})` : `rgba(16, 185, 129, ${-t * 0.8})`;
+      ctx.fillRect(c * cw, r * ch, cw, ch);
+    }));
+
+    const px = (p: Point) => projection.toCanvas(p, w, h) as Point;
+    const drawRoutes = (run: ScenarioRun, color: string, dash: number[]) => run.herds.forEach(herd => {
+      ctx.beginPath(); ctx.setLineDash(dash); ctx.strokeStyle = color; ctx.lineWidth = 3;
+      herd.path.map(px).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke(); ctx.setLineDash([]);
+    });
+    drawRoutes(a, '#34d399', [10, 8]);
+    drawRoutes(b, '#fbbf24', []);
+    a.herds.forEach(herd => {
+      const p = px(herd.path[0]);
+      ctx.fillStyle = 'white'; ctx.beginPath(); ctx.arc(p.x, p.y, 6, 0, Math.PI * 2); ctx.fill();
+      ctx.font = 'bold 16px monospace'; ctx.fillText(herd.label, p.x + 10, p.y - 10);
+    });
+  }, [comparison, projection]);
+  return <canvas ref={canvasRef} width={1200} height={900} className="w-full rounded-3xl border border-slate-800" />;
+}
+
+const SYNC_INTERVALS: [number, string][] = [[30, '30 s'], [60, '1 min'], [300, '5 min'], [900, '15 min']];
+
+// Satellite Link: real sync history, polling controls and the last received NDVI matrix
+const TelemetryStream = ({ baseUrl, onBaseUrl, log, status, policy, nextSyncAt, onPolicy, onSync }: any) => {
+  const [urlDraft, setUrlDraft] = useState(baseUrl);
+  useEffect(() => setUrlDraft(baseUrl), [baseUrl]);
+  const received = (log as SyncLogEntry[]).filter(entry => entry.matrix !== null);
+  const current = received[received.length - 1] ?? null;
+  const previous = received[received.length - 2] ?? null;
+  const diff = current && previous ? diffMatrices(current.matrix!, previous.matrix!) : null;
+  const failures = consecutiveFailures(log);
+
+  return (
+    <div className="flex-1 p-12 overflow-y-auto bg-slate-950">
+      <div className="max-w-5xl mx-auto space-y-10">
+        <div className="flex items-center justify-between gap-8">
+          <div className="flex items-center gap-6"><Radio size={40} className={status === 'live' ? 'text-emerald-500 animate-pulse' : 'text-slate-600'}/><h2 className="text-5xl font-black italic tracking-tighter uppercase">Telemetry Stream</h2></div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => onPolicy({ ...policy, enabled: !policy.enabled })} className={`px-4 py-2.5 rounded-xl border text-[9px] font-black uppercase ${policy.enabled ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>Auto-Sync {policy.enabled ? 'On' : 'Off'}</button>
+            <select value={policy.intervalS} onChange={(e) => onPolicy({ ...policy, intervalS: Number(e.target.value) })} className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2.5 text-[9px] font-black uppercase text-slate-300">
+              {SYNC_INTERVALS.map(([s, label]) => <option key={s} value={s}>Every {label}</option>)}
+            </select>
+            <button onClick={onSync} disabled={status === 'syncing'} className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[9px] font-black uppercase text-emerald-400 disabled:opacity-50">Sync Now</button>
+          </div>
+        </div>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+          {LINK_STATUS_LABELS[status as LinkStatus]}
+          {failures > 0 && ` · ${failures} consecutive failure${failures === 1 ? '' : 's'}`}
+          {policy.enabled && nextSyncAt !== null && status !== 'syncing' && ` · next attempt ${new Date(nextSyncAt).toLocaleTimeString()}${failures > 0 ? ` (backoff ${(nextSyncDelayMs(policy, failures) / 1000).toFixed(0)} s)` : ''}`}
+        </p>
+        <form className="flex items-center gap-3" onSubmit={(e) => { e.preventDefault(); onBaseUrl(urlDraft); }}>
+          <span className="text-[9px] font-black uppercase text-slate-500">API Base URL</span>
+          <input value={urlDraft} onChange={(e) => setUrlDraft(e.target.value)} className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 font-mono text-[10px] text-slate-300" />
+          <button type="submit" className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-[9px] font-black uppercase text-slate-300">Apply</button>
+          <button type="button" onClick={() => onBaseUrl(DEFAULT_API_BASE_URL)} className="px-3 py-2 text-[9px] font-black uppercase text-slate-500 hover:text-slate-300">Backend</button>
+          <button type="button" onClick={() => onBaseUrl(MOCK_BASE_URL)} className="px-3 py-2 text-[9px] font-black uppercase text-slate-500 hover:text-slate-300">Mock</button>
+        </form>
+
+        <div className="grid grid-cols-2 gap-8">
+          <div className="space-y-3">
+            <p className="text-[10px] font-black uppercase text-slate-400">Received ndvi_matrix {current && `· ${new Date(current.at).toLocaleTimeString()}`}</p>
+            {current ? <MatrixRaster matrix={current.matrix!} /> : <div className="aspect-[4/3] rounded-2xl border border-dashed border-slate-800 flex items-center justify-center text-[10px] font-bold uppercase text-slate-600">No matrix received yet</div>}
+          </div>
+          <div className="space-y-3">
+            <p className="text-[10px] font-black uppercase text-slate-400">Change vs previous sync</p>
+            {diff ? <MatrixRaster matrix={diff.delta} diverging /> : <div className="aspect-[4/3] rounded-2xl border border-dashed border-slate-800 flex items-center justify-center text-[10px] font-bold uppercase text-slate-600">Needs two successful syncs</div>}
+            {diff && (
+              <div className="flex gap-6 font-mono text-[10px] text-slate-400">
+                <span>mean |Δ| {diff.meanAbs.toFixed(4)}</span><span>max |Δ| {diff.maxAbs.toFixed(4)}</span><span>{(diff.changedFraction * 100).toFixed(1)}% cells changed</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black uppercase text-slate-400">Sync Log ({log.length})</p>
+          {log.length === 0 && <p className="text-[10px] text-slate-600">No sync attempts yet.</p>}
+          <table className="w-full font-mono text-[10px] text-slate-300">
+            {log.length > 0 && <thead className="text-slate-500 uppercase text-left"><tr>{['Time', 'Result', 'Latency', 'Payload', 'Matrix', 'Conflicts', 'Error'].map(h => <th key={h} className="py-2 pr-4">{h}</th>)}</tr></thead>}
+            <tbody>
+              {[...(log as SyncLogEntry[])].reverse().map(entry => (
+                <tr key={entry.id} className="border-t border-slate-800">
+                  <td className="py-2 pr-4">{new Date(entry.at).toLocaleTimeString()}</td>
+                  <td className={`pr-4 uppercase font-black ${entry.status === 'ok' ? 'text-emerald-400' : entry.status === 'offline' ? 'text-slate-500' : 'text-rose-400'}`}>{entry.status}</td>
+                  <td className="pr-4">{entry.latencyMs.toFixed(0)} ms</td>
+                  <td className="pr-4">{entry.bytes !== null ? `${(entry.bytes / 1024).toFixed(1)} KB` : '—'}</td>
+                  <td className="pr-4">{entry.rawDims ? `${entry.rawDims.rows}×${entry.rawDims.cols}` : '—'}</td>
+                  <td className="pr-4">{entry.conflicts ?? '—'}</td>
+                  <td className="pr-4 text-rose-400 truncate max-w-xs" title={entry.error ?? undefined}>{entry.error ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Grid-resolution raster preview; diverging = blue (loss) / white / green (gain) around zero
+const MatrixRaster = ({ matrix, diverging = false }: { matrix: number[][]; diverging?: boolean }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const rows = matrix.length; const cols = matrix[0].length;
+    const flat = matrix.flat();
+    const lo = Math.min(...flat); const hi = Math.max(...flat);
+    const span = diverging ? Math.max(Math.abs(lo), Math.abs(hi), 1e-9) : Math.max(hi - lo, 1e-9);
+    const image = ctx.createImageData(cols, rows);
+    flat.forEach((v, i) => {
+      let rgb: [number, number, number];
+      if (diverging) {
+        const t = v / span; // -1..1
+        rgb = t >= 0 ? [255 - 239 * t, 255 - 70 * t, 255 - 126 * t] : [255 + 196 * t, 255 + 125 * t, 255 + 7 * t];
+      } else {
+        const t = (v - lo) / span;
+        rgb = [15 + 1 * t, 23 + 162 * t, 42 + 87 * t];
+      }
+      image.data.set([rgb[0], rgb[1], rgb[2], 255], i * 4);
+    });
+    ctx.putImageData(image, 0, 0);
+  }, [matrix, diverging]);
+  return <canvas ref={canvasRef} width={matrix[0].length} height={matrix.length} className="w-full rounded-2xl border border-slate-800" style={{ imageRendering: 'pixelated' }} />;
+};
+
+// High-Performance Engine Map Canvas
+function MapCanvas({ canvasRef: externalRef, field, sims, agents, alerts, risk, hotspots, gridSize, incidents, now, selectedIncidentId, projection, resources, month, draftShape, selectedResourceId, corridor }: any) {
+  const ownRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = externalRef ?? ownRef; // the parent keeps a handle for report snapshots
+  const pulseRef = useRef<HTMLCanvasElement>(null);
+
+  // The full raster is repainted only when its data changes; incident pulses animate on a separate overlay
   useEffect(() => {
     const canvas = canvasRef.current; if (!canvas) return;
     const ctx = canvas.getContext('2d'); if (!ctx) return;
     const w = canvas.width; const h = canvas.height;
     const cw = w / gridSize.cols; const ch = h / gridSize.rows;
+    const px = (p: Point) => projection.toCanvas(p, w, h) as Point;
 
-    const draw = () => {
-      ctx.fillStyle = '#020617'; ctx.fillRect(0, 0, w, h);
+    ctx.fillStyle = '#020617'; ctx.fillRect(0, 0, w, h);
 
-      // 1. Geography Reference: THE WHITE NILE (White River Flow)
+    // 1. Geography Reference: Water Infrastructure (rivers, wetlands, waterpoints), faded by seasonal availability
+    const trace = (pts: Point[], close: boolean) => {
       ctx.beginPath();
-      ctx.strokeStyle = '#0284c7'; ctx.lineWidth = 45; ctx.globalAlpha = 0.05;
-      ctx.moveTo(0.15 * w, 0); ctx.bezierCurveTo(0.3 * w, 0.4*h, 0.05*w, 0.6*h, 0.25*w, h);
-      ctx.stroke(); ctx.globalAlpha = 0.12; ctx.lineWidth = 15; ctx.stroke(); ctx.globalAlpha = 1.0;
+      pts.map(px).forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      if (close) ctx.closePath();
+    };
+    resources.forEach((res: Resource) => {
+      const a = Math.max(0.25, availabilityAt(res, month));
+      const selected = res.id === selectedResourceId;
+      ctx.strokeStyle = '#0284c7'; ctx.fillStyle = '#0284c7';
+      if (res.kind === 'river') {
+        trace(res.path, false);
+        ctx.lineWidth = 45; ctx.globalAlpha = 0.05 * a; ctx.stroke();
+        ctx.globalAlpha = 0.12 * a; ctx.lineWidth = 15; ctx.stroke();
+      } else if (res.kind === 'wetland') {
+        trace(res.polygon, true);
+        ctx.globalAlpha = 0.12 * a; ctx.fill();
+        ctx.globalAlpha = 0.3 * a; ctx.lineWidth = 4; ctx.stroke();
+      } else {
+        const p = px(res.at);
+        ctx.globalAlpha = 0.15 * a; ctx.beginPath(); ctx.arc(p.x, p.y, 40, 0, Math.PI*2); ctx.fill();
+        ctx.globalAlpha = 0.6 * a; ctx.beginPath(); ctx.arc(p.x, p.y, 10, 0, Math.PI*2); ctx.fill();
+      }
+      if (selected) {
+        ctx.globalAlpha = 0.9; ctx.strokeStyle = '#38bdf8'; ctx.lineWidth = 3; ctx.setLineDash([10, 8]);
+        if (res.kind === 'point') { const p = px(res.at); ctx.beginPath(); ctx.arc(p.x, p.y, 24, 0, Math.PI*2); }
+        else trace(res.kind === 'river' ? res.path : res.polygon, res.kind === 'wetland');
+        ctx.stroke(); ctx.setLineDash([]);
+      }
+      ctx.globalAlpha = 1.0;
+    });
+
+    // 2. Resource Potentials (Environment Raster)
+    for (let r = 0; r < gridSize.rows; r++) {
+      for (let c = 0; c < gridSize.cols; c++) {
+        const v = field[r][c];
+        // Scale from Teal (Rich Pasture) to Red-Amber (Scarcity)
+        ctx.fillStyle = `rgba(${v * 240}, ${185 - v * 155}, 100, ${v * 0.4})`;
+        ctx.fillRect(c * cw, r * ch, cw, ch);
+      }
+    }
 
-      // 2. Resource Potentials (Environment Raster)
+    // 2b. Conflict Risk Forecast Overlay
+    if (risk) {
       for (let r = 0; r < gridSize.rows; r++) {
         for (let c = 0; c < gridSize.cols; c++) {
-          const v = field[r][c];
-          // Scale from Teal (Rich Pasture) to Red-Amber (Scarcity)
-          ctx.fillStyle = `rgba(${v * 240}, ${185 - v * 155}, 100, ${v * 0.4})`;
+          const v = Math.min(1, risk[r][c]);
+          if (v < 0.05) continue;
+          ctx.fillStyle = v < 0.5 ? `rgba(251, 191, 36, ${v * 1.2})` : `rgba(244, 63, 94, ${0.4 + v * 0.5})`;
           ctx.fillRect(c * cw, r * ch, cw, ch);
         }
       }
-
-      // 3. Multi-Herd Predictions (Physics Layer)
-      sims.forEach((sim: any) => {
-        // Lagrange Ideal
-        ctx.beginPath(); ctx.setLineDash([18, 12]); ctx.strokeStyle = '#10b981'; ctx.lineWidth = 4;
-        sim.ideal.forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x*w, p.y*h) : ctx.lineTo(p.x*w, p.y*h));
-        ctx.stroke();
-
-        // Sentinel Observation (Telemetry Inference)
-        ctx.beginPath(); ctx.setLineDash([]); ctx.strokeStyle = '#f43f5e'; ctx.lineWidth = 6; ctx.globalAlpha = 0.8;
-        sim.observed.forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x*w, p.y*h) : ctx.lineTo(p.x*w, p.y*h));
-        ctx.stroke(); ctx.globalAlpha = 1.0;
-      });
-
-      // 4. FIRMS Satellite Hotspots (Camps)
-      camps.forEach((cp: Point) => {
-        const time = Date.now() / 400;
-        const pulse = Math.sin(time) * 15 + 30;
-        ctx.fillStyle = '#f43f5e20';
-        ctx.beginPath(); ctx.arc(cp.x*w, cp.y*h, pulse, 0, Math.PI*2); ctx.fill();
-        ctx.fillStyle = '#f43f5e';
-        ctx.beginPath(); ctx.arc(cp.x*w, cp.y*h, 12, 0, Math.PI*2); ctx.fill();
+      hotspots.forEach((hs: any, i: number) => {
+        const p = px(hs.point);
         ctx.strokeStyle = 'white'; ctx.lineWidth = 3;
-        ctx.beginPath(); ctx.arc(cp.x*w, cp.y*h, 16, 0, Math.PI*2); ctx.stroke();
+        ctx.beginPath(); ctx.arc(p.x, p.y, 34, 0, Math.PI*2); ctx.stroke();
+        ctx.fillStyle = 'white'; ctx.font = 'bold 28px monospace'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+        ctx.fillText(`${i + 1}`, p.x, p.y);
       });
-    };
+    }
 
-    const loop = requestAnimationFrame(function frame() { draw(); requestAnimationFrame(frame); });
-    return () => cancelAnimationFrame(loop);
-  }, [field, sims, gridSize, camps]);
+    // 2c. Ensemble Route Corridor (per-cell visitation probability)
+    if (corridor) {
+      for (let r = 0; r < gridSize.rows; r++) {
+        for (let c = 0; c < gridSize.cols; c++) {
+          const p = corridor[r][c];
+          if (p < 0.05) continue;
+          ctx.fillStyle = `rgba(34, 211, 238, ${0.1 + p * 0.6})`;
+          ctx.fillRect(c * cw, r * ch, cw, ch);
+        }
+      }
+    }
+
+    // 3. Multi-Herd Predictions (Physics Layer)
+    sims.forEach((sim: any) => {
+      // Lagrange Ideal
+      ctx.beginPath(); ctx.setLineDash([18, 12]); ctx.strokeStyle = '#10b981'; ctx.lineWidth = 4;
+      sim.ideal.map(px).forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+
+      // Sentinel Observation (Telemetry Inference)
+      ctx.beginPath(); ctx.setLineDash([]); ctx.strokeStyle = '#f43f5e'; ctx.lineWidth = 6; ctx.globalAlpha = 0.8;
+      sim.observed.map(px).forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke(); ctx.globalAlpha = 1.0;
+    });
+
+    // 3a. Multi-Agent Trajectories & Predicted Encounters
+    agents.agents.forEach((agent: any) => {
+      ctx.beginPath(); ctx.setLineDash([4, 10]); ctx.strokeStyle = '#fbbf24'; ctx.lineWidth = 3; ctx.globalAlpha = 0.7;
+      agent.trajectory.map(px).forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke(); ctx.setLineDash([]); ctx.globalAlpha = 1.0;
+    });
+    agents.events.forEach((ev: any) => {
+      const p = px(ev.location);
+      ctx.strokeStyle = ev.severity > 0.6 ? '#f43f5e' : '#fbbf24'; ctx.lineWidth = 4;
+      ctx.beginPath(); ctx.arc(p.x, p.y, 20 + ev.severity * 20, 0, Math.PI*2); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(p.x - 10, p.y - 10); ctx.lineTo(p.x + 10, p.y + 10); ctx.moveTo(p.x + 10, p.y - 10); ctx.lineTo(p.x - 10, p.y + 10); ctx.stroke();
+    });
+
+    // 3b. Shape being drawn in River / Wetland mode
+    if (draftShape.length > 0) {
+      ctx.setLineDash([8, 8]); ctx.strokeStyle = '#38bdf8'; ctx.lineWidth = 3;
+      ctx.beginPath();
+      draftShape.map(px).forEach((p: Point, i: number) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke(); ctx.setLineDash([]);
+      ctx.fillStyle = '#38bdf8';
+      draftShape.map(px).forEach((p: Point) => { ctx.beginPath(); ctx.arc(p.x, p.y, 6, 0, Math.PI*2); ctx.fill(); });
+    }
 
-  return <canvas ref={canvasRef} width={2400} height={1600} className="w-full h-full object-cover" />;
+    // 3c. Anomaly Alerts (open = filled, acknowledged = outline, dismissed = hidden)
+    alerts.filter((a: Alert) => a.status !== 'dismissed').forEach((a: Alert) => {
+      const p = px(a.location);
+      ctx.beginPath(); ctx.moveTo(p.x, p.y - 22); ctx.lineTo(p.x + 19, p.y + 12); ctx.lineTo(p.x - 19, p.y + 12); ctx.closePath();
+      ctx.strokeStyle = ctx.fillStyle = ALERT_COLORS[a.severity]; ctx.lineWidth = 3;
+      if (a.status === 'open') ctx.fill(); else ctx.stroke();
+    });
+
+    // 4. Incidents (FIRMS hotspots, raids, roadblocks...): colour by type, fading with their half-life
+    incidents.forEach((inc: Incident) => {
+      const cp = px(inc);
+      ctx.globalAlpha = Math.max(0.25, decayFactor(inc, now));
+      ctx.fillStyle = INCIDENT_COLORS[inc.type];
+      if (inc.type === 'roadblock') ctx.fillRect(cp.x - 11, cp.y - 11, 22, 22);
+      else { ctx.beginPath(); ctx.arc(cp.x, cp.y, 12, 0, Math.PI*2); ctx.fill(); }
+      ctx.strokeStyle = 'white'; ctx.lineWidth = 3;
+      ctx.beginPath(); ctx.arc(cp.x, cp.y, 16, 0, Math.PI*2); ctx.stroke();
+      if (inc.id === selectedIncidentId) {
+        ctx.globalAlpha = 1; ctx.setLineDash([8, 6]);
+        ctx.beginPath(); ctx.arc(cp.x, cp.y, 28, 0, Math.PI*2); ctx.stroke(); ctx.setLineDash([]);
+      }
+      ctx.globalAlpha = 1.0;
+    });
+  }, [field, sims, agents, alerts, risk, hotspots, gridSize, incidents, now, selectedIncidentId, projection, resources, month, draftShape, selectedResourceId, corridor]);
+
+  // Pulse halos: a cheap overlay redraw per frame, every frame handle is tracked so unmount stops the loop
+  useEffect(() => {
+    const canvas = pulseRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const w = canvas.width; const h = canvas.height;
+    let frame = requestAnimationFrame(function pulse(t: number) {
+      ctx.clearRect(0, 0, w, h);
+      incidents.forEach((inc: Incident) => {
+        const cp = projection.toCanvas(inc, w, h) as Point;
+        ctx.globalAlpha = Math.max(0.25, decayFactor(inc, now));
+        ctx.fillStyle = INCIDENT_COLORS[inc.type] + '20';
+        ctx.beginPath(); ctx.arc(cp.x, cp.y, (Math.sin(t / 400) * 15 + 30) * Math.sqrt(inc.severity), 0, Math.PI*2); ctx.fill();
+      });
+      ctx.globalAlpha = 1.0;
+      frame = requestAnimationFrame(pulse);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [incidents, now, projection]);
+
+  return (
+    <div className="relative w-full h-full">
+      <canvas ref={canvasRef} width={2400} height={1600} className="w-full h-full object-cover" />
+      <canvas ref={pulseRef} width={2400} height={1600} className="absolute inset-0 w-full h-full object-cover pointer-events-none" />
+    </div>
+  );
 }
\ No newline at end of file
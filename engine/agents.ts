@@ -0,0 +1,181 @@
+import type { Cell } from './geo';
+import { costToGo } from './calibration';
+import type { PhysicsEngine, Point } from './physics';
+
+/**
+ * Çok-ajanlı sürü simülasyonu: her tick'te (1 saat) tüm sürüler birer hücre ilerler.
+ * Sürüler birbirini iter (farklı grup) veya çeker (aynı grup), otladıkları hücrenin
+ * merasını tüketir; yakınlaşmalar "karşılaşma" (encounter) olayı olarak raporlanır.
+ */
+
+export interface HerdAgentInit {
+  id: number;
+  label: string;
+  start: Point;
+  target: Point;
+  group?: string;   // Aynı gruptaki sürüler birbirini çeker (aynı klan / kamp)
+  size?: number;    // Göreli sürü büyüklüğü (otlama hızını ölçekler)
+}
+
+export interface HerdAgent extends Required<HerdAgentInit> {
+  cell: Cell;
+  goal: Cell;
+  trajectory: Point[];
+  arrivedAt: number | null; // Hedefe varış tick'i
+}
+
+export interface EncounterEvent {
+  tick: number;         // Simülasyon saati
+  location: Point;      // İki sürünün orta noktası
+  herds: [number, number];
+  labels: [string, string];
+  distanceKm: number;   // Karşılaşma anındaki mesafe
+  severity: number;     // 0-1, yakınlık ve mera kıtlığıyla artar
+}
+
+export interface AgentOptions {
+  maxTicks?: number;
+  encounterKm?: number;     // Bu mesafenin altı karşılaşma sayılır
+  interactionKm?: number;   // İtme / çekme etkisinin e-katlanma mesafesi
+  repulsion?: number;       // Farklı grup sürüler arası itme gücü
+  attraction?: number;      // Aynı grup sürüler arası çekme gücü
+  congestion?: number;      // Dolu hücreye girme cezası
+  grazeRate?: number;       // Tick başına tüketilen mera (boyut 1 için)
+  regrowthRate?: number;    // Tick başına mera yenilenmesi
+  grazeWeight?: number;     // Tükenmiş meranın adım maliyetine etkisi
+}
+
+export interface AgentRunResult {
+  ticks: number;
+  agents: HerdAgent[];
+  events: EncounterEvent[];
+  pasture: number[][];      // Simülasyon sonundaki mera (0 = tükenmiş, 1 = tam)
+}
+
+const MOVES: [number, number][] = [[0, 0], [-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+export class HerdSimulator {
+  engine: PhysicsEngine;
+  agents: HerdAgent[];
+  pasture: number[][];
+  events: EncounterEvent[] = [];
+  tickCount = 0;
+  options: Required<AgentOptions>;
+
+  private goalCost = new Map<string, Float64Array>();
+  private inContact = new Set<string>(); // Hâlâ yakın olan çiftler (olay tekrarlanmasın)
+
+  constructor(engine: PhysicsEngine, herds: HerdAgentInit[], options: AgentOptions = {}) {
+    this.engine = engine;
+    this.options = {
+      maxTicks: 400, encounterKm: 4, interactionKm: 6, repulsion: 0.6, attraction: 0.2,
+      congestion: 1.5, grazeRate: 0.08, regrowthRate: 0.004, grazeWeight: 0.8,
+      ...options
+    };
+    const { rows, cols } = engine.gridSize;
+    this.pasture = Array(rows).fill(0).map(() => Array(cols).fill(1));
+    this.agents = herds.map(h => {
+      const cell = engine.projection.toCell(h.start, engine.gridSize);
+      return {
+        group: `herd-${h.id}`, size: 1, ...h,
+        cell,
+        goal: engine.projection.toCell(h.target, engine.gridSize),
+        trajectory: [engine.projection.cellToPoint(cell, engine.gridSize)],
+        arrivedAt: null
+      };
+    });
+  }
+
+  private costToGoal(goal: Cell) {
+    const key = `${goal.r},${goal.c}`;
+    if (!this.goalCost.has(key)) this.goalCost.set(key, costToGo(this.engine, goal));
+    return this.goalCost.get(key)!;
+  }
+
+  private pointOf(cell: Cell) {
+    return this.engine.projection.cellToPoint(cell, this.engine.gridSize);
+  }
+
+  /** Bir tick: sürüler sırayla (senkron karar) hareket eder, otlar ve karşılaşmalar denetlenir. */
+  step() {
+    const { cols, rows } = this.engine.gridSize;
+    const o = this.options;
+    const field = this.engine.potentialField;
+    const occupied = new Set(this.agents.map(a => `${a.cell.r},${a.cell.c}`));
+
+    const decisions = this.agents.map(agent => {
+      const D = this.costToGoal(agent.goal);
+      let best = agent.cell; let bestCost = Infinity;
+      for (const [dr, dc] of MOVES) {
+        const cell = { r: agent.cell.r + dr, c: agent.cell.c + dc };
+        if (cell.r < 0 || cell.r >= rows || cell.c < 0 || cell.c >= cols) continue;
+        const p = this.pointOf(cell);
+        const len = dr !== 0 && dc !== 0 ? Math.SQRT2 : 1;
+
+        // Statik alan + hedefe kalan aksiyon + tükenmiş mera (beklemek de bir saatlik potansiyel öder)
+        let cost = field[cell.r][cell.c] * len + D[cell.r * cols + cell.c];
+        cost += (1 - this.pasture[cell.r][cell.c]) * o.grazeWeight;
+
+        // Diğer sürülerle etkileşim
+        this.agents.forEach(other => {
+          if (other === agent) return;
+          const d = this.engine.projection.distanceKm(p, this.pointOf(other.cell));
+          const pull = other.group === agent.group ? -o.attraction : o.repulsion;
+          cost += pull * Math.exp(-d / o.interactionKm);
+        });
+        if ((dr !== 0 || dc !== 0) && occupied.has(`${cell.r},${cell.c}`)) cost += o.congestion;
+
+        if (cost < bestCost) { bestCost = cost; best = cell; }
+      }
+      return best;
+    });
+
+    this.tickCount++;
+    this.agents.forEach((agent, i) => {
+      agent.cell = decisions[i];
+      agent.trajectory.push(this.pointOf(agent.cell));
+      if (agent.arrivedAt === null && agent.cell.r === agent.goal.r && agent.cell.c === agent.goal.c) agent.arrivedAt = this.tickCount;
+      // Otlama: bulunulan hücrenin merası tükenir
+      const { r, c } = agent.cell;
+      this.pasture[r][c] = Math.max(0, this.pasture[r][c] - o.grazeRate * agent.size);
+    });
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) this.pasture[r][c] = Math.min(1, this.pasture[r][c] + o.regrowthRate);
+    }
+
+    this.detectEncounters();
+  }
+
+  private detectEncounters() {
+    const o = this.options;
+    for (let i = 0; i < this.agents.length; i++) {
+      for (let j = i + 1; j < this.agents.length; j++) {
+        const a = this.agents[i]; const b = this.agents[j];
+        const key = `${a.id}:${b.id}`;
+        const pa = this.pointOf(a.cell); const pb = this.pointOf(b.cell);
+        const d = this.engine.projection.distanceKm(pa, pb);
+        if (d > o.encounterKm || a.group === b.group) { this.inContact.delete(key); continue; }
+        if (this.inContact.has(key)) continue;
+        this.inContact.add(key);
+
+        const location = { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+        const cell = this.engine.projection.toCell(location, this.engine.gridSize);
+        const scarcity = 1 - this.pasture[cell.r][cell.c];
+        this.events.push({
+          tick: this.tickCount, location, herds: [a.id, b.id], labels: [a.label, b.label], distanceKm: d,
+          severity: Math.min(1, 0.6 * (1 - d / o.encounterKm) + 0.4 * scarcity + 0.2)
+        });
+      }
+    }
+  }
+
+  /** Tüm sürüler varana veya maxTicks dolana kadar çalıştırır. */
+  run(): AgentRunResult {
+    while (this.tickCount < this.options.maxTicks && this.agents.some(a => a.arrivedAt === null)) this.step();
+    return { ticks: this.tickCount, agents: this.agents, events: this.events, pasture: this.pasture };
+  }
+}
+
+/** Karşılaşma olaylarının Bölgesel Risk Endeksi'ne katkısı (puan, en fazla maxPoints). */
+export const encounterRisk = (events: EncounterEvent[], maxPoints: number = 40) =>
+  Math.min(maxPoints, events.reduce((acc, e) => acc + 12 * e.severity, 0));
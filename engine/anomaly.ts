@@ -0,0 +1,125 @@
+import type { PhysicsEngine, Point, TimedPoint } from './physics';
+
+/**
+ * Nokta bazlı anomali tespiti ve uyarı (alert) üretimi.
+ * Bileşenler: keskin dönüş (±π sarmalı doğru), hız sıçraması, least-action
+ * rotasından sapma ve ani geri dönüş.
+ */
+
+export type AnomalyReason = 'turn' | 'speed' | 'deviation' | 'reversal';
+export type AlertSeverity = 'low' | 'medium' | 'high';
+export type AlertStatus = 'open' | 'acknowledged' | 'dismissed';
+
+export interface AnomalyThresholds {
+  turnRad: number;      // Bu açının üstü keskin dönüş
+  reversalRad: number;  // Bu açının üstü geri dönüş (≈ 150°)
+  speedKmh: number;     // Zaman damgalı izlerde hız eşiği
+  speedRatio: number;   // Damgasız izlerde medyan adımın kaç katı sıçrama sayılır
+  deviationKm: number;  // Least-action rotasından sapma eşiği
+  minStepKm: number;    // Yön hesabı için en kısa baz (GPS titreşimini bastırır)
+}
+
+export const DEFAULT_ANOMALY_THRESHOLDS: AnomalyThresholds = {
+  turnRad: 1.6, reversalRad: 2.6, speedKmh: 6, speedRatio: 3, deviationKm: 8, minStepKm: 5
+};
+
+export interface PointAnomaly {
+  index: number;
+  point: Point;
+  time: number | null;
+  turn: number;         // Mutlak dönüş açısı (rad)
+  speed: number;        // km/sa (damgalı) veya medyan adıma oran (damgasız)
+  deviationKm: number;
+  score: number;        // max(bileşen / eşik); ≥ 1 anomali
+  reason: AnomalyReason | null;
+}
+
+export interface Alert {
+  id: string;
+  herdId: number;
+  herdLabel: string;
+  location: Point;
+  time: number | null;  // epoch ms (damgasız izlerde null)
+  index: number;        // observedPath içindeki nokta
+  reason: AnomalyReason;
+  severity: AlertSeverity;
+  score: number;
+  status: AlertStatus;
+}
+
+/** Açıyı (-π, π] aralığına sarar: 179° → -179° dönüşü 2°'dir, 358° değil. */
+export const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export const headingChange = (a: Point, b: Point, c: Point) =>
+  Math.abs(wrapAngle(Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(b.y - a.y, b.x - a.x)));
+
+const timeOf = (p: Point) => (typeof (p as TimedPoint).time === 'number' ? (p as TimedPoint).time : null);
+
+export function detectAnomalies(engine: PhysicsEngine, observed: (Point | TimedPoint)[], ideal: Point[], thresholds: AnomalyThresholds = DEFAULT_ANOMALY_THRESHOLDS): PointAnomaly[] {
+  const km = (a: Point, b: Point) => engine.projection.distanceKm(a, b);
+  const steps = observed.map((p, i) => (i === 0 ? 0 : km(observed[i - 1], p)));
+  const sorted = steps.slice(1).filter(s => s > 0).sort((a, b) => a - b);
+  const medianStep = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+  const timed = observed.every(p => timeOf(p) !== null);
+
+  return observed.map((p, i) => {
+    // Yön: en az minStepKm uzaktaki önceki / sonraki noktaya göre
+    let j = i - 1; while (j >= 0 && km(observed[j], p) < thresholds.minStepKm) j--;
+    let k = i + 1; while (k < observed.length && km(p, observed[k]) < thresholds.minStepKm) k++;
+    const turn = j >= 0 && k < observed.length ? headingChange(observed[j], p, observed[k]) : 0;
+
+    let speed = 0;
+    if (i > 0) {
+      if (timed) {
+        const dt = (timeOf(p)! - timeOf(observed[i - 1])!) / 3_600_000;
+        speed = dt > 0 ? steps[i] / dt : 0;
+      } else {
+        speed = medianStep > 0 ? steps[i] / medianStep : 0;
+      }
+    }
+
+    const deviationKm = ideal.length > 0 ? Math.min(...ideal.map(q => km(p, q))) : 0;
+
+    const components: [AnomalyReason, number][] = [
+      [turn >= thresholds.reversalRad ? 'reversal' : 'turn', turn / (turn >= thresholds.reversalRad ? thresholds.reversalRad : thresholds.turnRad)],
+      ['speed', speed / (timed ? thresholds.speedKmh : thresholds.speedRatio)],
+      ['deviation', deviationKm / thresholds.deviationKm]
+    ];
+    const [reason, score] = components.reduce((best, c) => (c[1] > best[1] ? c : best));
+
+    return { index: i, point: p, time: timeOf(p), turn, speed, deviationKm, score, reason: score >= 1 ? reason : null };
+  });
+}
+
+const severityOf = (reason: AnomalyReason, score: number): AlertSeverity => {
+  if (score >= 2) return 'high';
+  if (score >= 1.5 || reason === 'reversal') return 'medium';
+  return 'low';
+};
+
+/**
+ * Aynı nedenli ardışık anomalileri tek uyarıda toplar (en yüksek skorlu nokta temsil eder).
+ * id deterministiktir; yeniden hesaplamada onay / reddetme durumu korunabilir.
+ */
+export function buildAlerts(herdId: number, herdLabel: string, anomalies: PointAnomaly[]): Alert[] {
+  const alerts: Alert[] = [];
+  let run: PointAnomaly[] = [];
+  const flush = () => {
+    if (run.length === 0) return;
+    const peak = run.reduce((a, b) => (b.score > a.score ? b : a));
+    alerts.push({
+      id: `${herdLabel}:${run[0].index}:${peak.reason}`,
+      herdId, herdLabel,
+      location: peak.point, time: peak.time, index: peak.index,
+      reason: peak.reason!, severity: severityOf(peak.reason!, peak.score), score: peak.score,
+      status: 'open'
+    });
+    run = [];
+  };
+  anomalies.forEach(a => {
+    if (a.reason === null || (run.length > 0 && run[run.length - 1].reason !== a.reason)) flush();
+    if (a.reason !== null) run.push(a);
+  });
+  flush();
+  return alerts;
+}
@@ -0,0 +1,60 @@
+import type { Cell } from './geo';
+import { CALIBRATED_KEYS, sampleTrajectory } from './calibration';
+import { PhysicsEngine, type Point } from './physics';
+import { createRng } from './random';
+import { DEFAULT_RESOURCES } from './resources';
+import { createIncident } from './incidents';
+
+/**
+ * Kalibrasyonun sentetik veride yakınsama denetimi: bilinen ağırlıklarla Boltzmann
+ * politikasından yörünge örneklenir, bozulmuş ağırlıklardan başlayan optimize()
+ * gerçeğe yaklaşmalı, effort'a (rota seçimine girmez) dokunmamalı ve aynı tohumla
+ * birebir aynı sonucu vermelidir.
+ *   npx tsx engine/calibration.check.ts
+ */
+
+const TRUE_WEIGHTS = { resource: 0.65, safety: 1.8, effort: 0.08, uncertainty: 0.2 };
+const START_WEIGHTS = { resource: 0.3, safety: 0.6, effort: 0.25, uncertainty: 0.6 };
+
+const fieldFor = (weights: PhysicsEngine['weights']) => {
+  const engine = new PhysicsEngine(24, 18);
+  engine.weights = { ...weights };
+  const incidents = [createIncident({ x: 0.5, y: 0.5 }, 'raid', { time: 0 }), createIncident({ x: 0.3, y: 0.2 }, 'clash', { time: 0 })];
+  engine.generateField(null, 3, incidents, { ndvi: 0.42, lst: 38 }, DEFAULT_RESOURCES, 0);
+  return engine;
+};
+
+const truth = fieldFor(TRUE_WEIGHTS);
+const rng = createRng(7);
+const { cols, rows } = truth.gridSize;
+const trajectories: Point[][] = Array(40).fill(0).map(() => {
+  const start: Cell = { r: Math.floor(rng() * rows), c: Math.floor(rng() * cols) };
+  const goal: Cell = { r: Math.floor(rng() * rows), c: Math.floor(rng() * cols) };
+  return sampleTrajectory(truth, start, goal, rng, 200);
+}).filter(path => path.length > 3);
+
+const logError = (w: PhysicsEngine['weights']) =>
+  Math.sqrt(CALIBRATED_KEYS.reduce((acc, k) => acc + Math.pow(Math.log(w[k] / TRUE_WEIGHTS[k]), 2), 0));
+
+const calibrate = () => fieldFor(START_WEIGHTS).optimize(trajectories, { iterations: 60, seed: 3 });
+const report = calibrate();
+const first = report.history[0];
+const last = report.history[report.history.length - 1];
+// Aynı train/validation bölmesinde üreten ağırlıkların kaybı (0 tur = yalnızca değerlendirme)
+const reference = fieldFor(TRUE_WEIGHTS).optimize(trajectories, { iterations: 0, seed: 3 }).history[0];
+
+console.log(`${trajectories.length} trajectories, ${report.history.length - 1} iterations, stop: ${report.stopReason}`);
+console.log(`train loss ${first.trainLoss.toFixed(4)} → ${last.trainLoss.toFixed(4)}, validation ${first.validationLoss?.toFixed(4)} → ${last.validationLoss?.toFixed(4)}`);
+console.log(`generating weights: train ${reference.trainLoss.toFixed(4)}, validation ${reference.validationLoss?.toFixed(4)}`);
+console.log(`log-weight error ${logError(START_WEIGHTS).toFixed(3)} → ${logError(report.weights).toFixed(3)}`, report.weights);
+
+if (!(last.trainLoss < first.trainLoss)) throw new Error('Training loss did not decrease');
+if (last.trainLoss > reference.trainLoss + 0.01) throw new Error('Fitted loss is worse than the generating weights');
+if (last.validationLoss! > reference.validationLoss! + 0.02) throw new Error('Validation loss is worse than the generating weights');
+CALIBRATED_KEYS.forEach(k => {
+  if (Math.abs(Math.log(report.weights[k] / TRUE_WEIGHTS[k])) > Math.log(1.5)) throw new Error(`${k} not recovered: ${report.weights[k]} vs ${TRUE_WEIGHTS[k]}`);
+});
+if (report.weights.effort !== START_WEIGHTS.effort || !report.frozen.includes('effort')) throw new Error('effort should stay frozen');
+if (report.stopReason === 'stalled' || report.stopReason === 'no-data') throw new Error(`Optimiser stopped early: ${report.stopReason}`);
+if (JSON.stringify(calibrate()) !== JSON.stringify(report)) throw new Error('Calibration is not deterministic for a fixed seed');
+console.log('calibration check passed');
@@ -0,0 +1,251 @@
+import { rasterize, type Cell } from './geo';
+import { MinHeap } from './pathfinding';
+import { createRng, shuffle, type Rng } from './random';
+import type { PhysicsEngine, Point } from './physics';
+
+/**
+ * Ters Pekiştirmeli Öğrenme (IRL): grid MDP üzerinde Boltzmann-rasyonel sürü modeli.
+ *
+ * Hücre a'dan komşu b'ye geçiş olasılığı  P(b | a) ∝ exp(-(c(a,b) + D(b)) / τ)
+ *   c(a,b) = V(b)·ℓ                    (rota çözücüyle aynı adım maliyeti, ℓ = 1 veya √2)
+ *   D(b)   = hedefe kalan en az aksiyon (geriye doğru Dijkstra)
+ *   τ      = weights.uncertainty (karar gürültüsü)
+ *
+ * Kayıp = gözlenen geçişlerin ortalama negatif log-olabilirliği. Ağırlıklar log-uzayda
+ * sonlu farklarla türetilip geri-izlemeli gradyan inişiyle güncellenir. effort rota
+ * seçimine girmez (yalnızca computePhysics'teki kinetik terim), bu yüzden sabit tutulur.
+ */
+
+export type WeightKey = keyof PhysicsEngine['weights'];
+
+export interface CalibrationOptions {
+  iterations?: number;          // Varsayılan: DEFAULT_CALIBRATION_ITERATIONS
+  learningRate?: number;
+  validationFraction?: number;  // Doğrulama kümesine ayrılan yörünge oranı
+  seed?: number;                // Bölme (split) için tohum
+  keys?: WeightKey[];           // Kalibre edilecek ağırlıklar (varsayılan / üst küme: CALIBRATED_KEYS)
+}
+
+export interface CalibrationStep {
+  iteration: number;
+  trainLoss: number;
+  validationLoss: number | null;
+  weights: PhysicsEngine['weights'];
+}
+
+// Optimizasyonun neden durduğu: yakınsadı, geri-izleme adım bulamadı, tur sınırı ya da veri yok
+export type CalibrationStop = 'converged' | 'stalled' | 'max-iterations' | 'no-data';
+
+export interface CalibrationReport {
+  history: CalibrationStep[];
+  weights: PhysicsEngine['weights'];
+  trainSize: number;
+  validationSize: number;
+  converged: boolean;
+  stopReason: CalibrationStop;
+  frozen: WeightKey[];          // Kalibre edilmeyip olduğu gibi bırakılan ağırlıklar
+}
+
+// Ağırlıkların fiziksel olarak anlamlı aralıkları
+export const WEIGHT_BOUNDS: Record<WeightKey, [number, number]> = {
+  resource: [0.05, 2.0],
+  safety: [0.1, 5.0],
+  effort: [0.005, 1.0],
+  uncertainty: [0.02, 2.0]
+};
+
+export const DEFAULT_CALIBRATION_ITERATIONS = 40;
+
+// Rota seçimini etkileyen, dolayısıyla gözlenen yörüngelerden öğrenilebilen ağırlıklar
+export const CALIBRATED_KEYS: WeightKey[] = ['resource', 'safety', 'uncertainty'];
+
+const NEIGHBORS: [number, number][] = [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+interface Demo {
+  goal: Cell;
+  steps: [Cell, Cell][]; // Ardışık komşu hücre geçişleri
+}
+
+function toDemo(engine: PhysicsEngine, path: Point[]): Demo | null {
+  const cells = path.map(p => engine.projection.toCell(p, engine.gridSize));
+  const steps: [Cell, Cell][] = [];
+  for (let i = 1; i < cells.length; i++) {
+    let from = cells[i - 1];
+    rasterize(from, cells[i]).forEach(to => {
+      if (to.r !== from.r || to.c !== from.c) steps.push([from, to]);
+      from = to;
+    });
+  }
+  return steps.length > 0 ? { goal: cells[cells.length - 1], steps } : null;
+}
+
+/** Komşu adımın maliyeti c(a,b): solveGridPath ile aynı, V(b) × adım uzunluğu. */
+function stepCost(engine: PhysicsEngine, a: Cell, b: Cell): number {
+  const diagonal = a.r !== b.r && a.c !== b.c;
+  return engine.potentialField[b.r][b.c] * (diagonal ? Math.SQRT2 : 1);
+}
+
+/** Hedefe kalan aksiyon D: hedeften geriye Dijkstra. */
+export function costToGo(engine: PhysicsEngine, goal: Cell): Float64Array {
+  const { cols, rows } = engine.gridSize;
+  const dist = new Float64Array(cols * rows).fill(Infinity);
+  const done = new Uint8Array(cols * rows);
+  const heap = new MinHeap();
+  dist[goal.r * cols + goal.c] = 0;
+  heap.push(goal.r * cols + goal.c, 0);
+
+  while (heap.size > 0) {
+    const n = heap.pop()!;
+    if (done[n]) continue;
+    done[n] = 1;
+    const to = { r: Math.floor(n / cols), c: n % cols };
+    for (const [dr, dc] of NEIGHBORS) {
+      const from = { r: to.r + dr, c: to.c + dc };
+      if (from.r < 0 || from.r >= rows || from.c < 0 || from.c >= cols) continue;
+      const idx = from.r * cols + from.c;
+      const d = dist[n] + stepCost(engine, from, to);
+      if (d < dist[idx]) { dist[idx] = d; heap.push(idx, d); }
+    }
+  }
+  return dist;
+}
+
+/** Boltzmann politikası: a hücresinden her komşuya log-olasılık. */
+function policy(engine: PhysicsEngine, D: Float64Array, a: Cell): { cell: Cell; logP: number }[] {
+  const { cols, rows } = engine.gridSize;
+  const tau = engine.weights.uncertainty;
+  const options = NEIGHBORS
+    .map(([dr, dc]) => ({ r: a.r + dr, c: a.c + dc }))
+    .filter(b => b.r >= 0 && b.r < rows && b.c >= 0 && b.c < cols)
+    .map(b => ({ cell: b, u: -(stepCost(engine, a, b) + D[b.r * cols + b.c]) / tau }));
+  const max = Math.max(...options.map(o => o.u));
+  const logZ = max + Math.log(options.reduce((acc, o) => acc + Math.exp(o.u - max), 0));
+  return options.map(o => ({ cell: o.cell, logP: o.u - logZ }));
+}
+
+/** Gösterimlerin (demo) ortalama negatif log-olabilirliği; alan güncel ağırlıklarla kurulmuş olmalı. */
+function negLogLikelihood(engine: PhysicsEngine, demos: Demo[]): number {
+  let total = 0; let n = 0;
+  const cache = new Map<string, Float64Array>();
+  demos.forEach(demo => {
+    const key = `${demo.goal.r},${demo.goal.c}`;
+    if (!cache.has(key)) cache.set(key, costToGo(engine, demo.goal));
+    const D = cache.get(key)!;
+    demo.steps.forEach(([a, b]) => {
+      const choice = policy(engine, D, a).find(o => o.cell.r === b.r && o.cell.c === b.c);
+      total -= choice ? choice.logP : -50;
+      n++;
+    });
+  });
+  return n > 0 ? total / n : 0;
+}
+
+const clampWeight = (key: WeightKey, v: number) => Math.min(WEIGHT_BOUNDS[key][1], Math.max(WEIGHT_BOUNDS[key][0], v));
+
+/**
+ * Kalibrasyonu tur tur yürüten üreteç: her kaydedilen adımı (0. tur dahil) verir, sonunda raporu döndürür.
+ * Worker turlar arasında olay döngüsüne dönüp iptal edebilsin diye; senkron kullanım için calibrateWeights.
+ */
+export function* calibrationSteps(engine: PhysicsEngine, trajectories: Point[][], options: CalibrationOptions = {}): Generator<CalibrationStep, CalibrationReport> {
+  const { iterations = DEFAULT_CALIBRATION_ITERATIONS, validationFraction = 0.25, seed = 1 } = options;
+  const keys = (options.keys ?? CALIBRATED_KEYS).filter(k => CALIBRATED_KEYS.includes(k));
+  const frozen = (Object.keys(engine.weights) as WeightKey[]).filter(k => !keys.includes(k));
+  const baseLr = options.learningRate ?? 0.2;
+  let lr = baseLr;
+
+  const demos = trajectories.map(path => toDemo(engine, path)).filter((d): d is Demo => d !== null);
+  const shuffled = shuffle(demos, createRng(seed));
+  const nVal = demos.length > 1 ? Math.min(demos.length - 1, Math.round(demos.length * validationFraction)) : 0;
+  const validation = shuffled.slice(0, nVal);
+  const train = shuffled.slice(nVal);
+
+  const evaluate = (set: Demo[]) => {
+    engine.regenerateField();
+    return negLogLikelihood(engine, set);
+  };
+  const setTheta = (theta: number[]) => keys.forEach((k, i) => { engine.weights[k] = clampWeight(k, Math.exp(theta[i])); });
+
+  let theta = keys.map(k => Math.log(engine.weights[k]));
+  setTheta(theta);
+  let loss = evaluate(train);
+  const history: CalibrationStep[] = [];
+  const record = (iteration: number) => {
+    const step = { iteration, trainLoss: loss, validationLoss: validation.length > 0 ? evaluate(validation) : null, weights: { ...engine.weights } };
+    history.push(step);
+    return step;
+  };
+  yield record(0);
+
+  let stopReason: CalibrationStop = train.length > 0 ? 'max-iterations' : 'no-data';
+  const h = 1e-3;
+  for (let it = 1; it <= iterations && train.length > 0; it++) {
+    // Log-uzayda merkezi sonlu fark gradyanı
+    const grad = theta.map((_, i) => {
+      const plus = [...theta]; plus[i] += h;
+      const minus = [...theta]; minus[i] -= h;
+      setTheta(plus); const lp = evaluate(train);
+      setTheta(minus); const lm = evaluate(train);
+      return (lp - lm) / (2 * h);
+    });
+    const norm = Math.sqrt(grad.reduce((acc, g) => acc + g * g, 0));
+    if (norm < 1e-6) { stopReason = 'converged'; setTheta(theta); yield record(it); break; }
+
+    // Geri-izleme: kayıp artarsa adımı yarıya indir
+    let accepted = false;
+    while (lr > 1e-4) {
+      const candidate = theta.map((t, i) => t - lr * grad[i] / norm);
+      setTheta(candidate);
+      const next = evaluate(train);
+      if (next < loss) {
+        // Sınırda kırpılan ağırlıkları θ'ya geri yansıt
+        theta = keys.map(k => Math.log(engine.weights[k]));
+        if (loss - next < 1e-5) stopReason = 'converged';
+        loss = next; accepted = true;
+        // Kabul edilen adımdan sonra adım boyu yeniden büyüyebilir; tek kötü adım kalıcı olmaz
+        lr = Math.min(baseLr, lr * 2);
+        break;
+      }
+      lr /= 2;
+    }
+    // Hiçbir adım kaybı düşürmedi: yakınsama değil, takılma
+    if (!accepted) { stopReason = 'stalled'; setTheta(theta); loss = evaluate(train); }
+    yield record(it);
+    if (stopReason === 'converged' || stopReason === 'stalled') break;
+  }
+
+  setTheta(theta);
+  engine.regenerateField();
+  return {
+    history, weights: { ...engine.weights }, trainSize: train.length, validationSize: validation.length,
+    converged: stopReason === 'converged', stopReason, frozen
+  };
+}
+
+export function calibrateWeights(engine: PhysicsEngine, trajectories: Point[][], options: CalibrationOptions = {}): CalibrationReport {
+  const run = calibrationSteps(engine, trajectories, options);
+  for (;;) {
+    const next = run.next();
+    if (next.done) return next.value;
+  }
+}
+
+/**
+ * Güncel ağırlıklarla Boltzmann politikasından sentetik yörünge örnekler.
+ * Bilinen ağırlıklardan veri üretip kalibrasyonun yakınsamasını sınamak için.
+ */
+export function sampleTrajectory(engine: PhysicsEngine, start: Cell, goal: Cell, rng: Rng, maxSteps: number = 500): Point[] {
+  const D = costToGo(engine, goal);
+  const path: Point[] = [engine.projection.cellToPoint(start, engine.gridSize)];
+  let current = start;
+  for (let i = 0; i < maxSteps && (current.r !== goal.r || current.c !== goal.c); i++) {
+    let u = rng();
+    const options = policy(engine, D, current);
+    current = options[options.length - 1].cell;
+    for (const o of options) {
+      u -= Math.exp(o.logP);
+      if (u <= 0) { current = o.cell; break; }
+    }
+    path.push(engine.projection.cellToPoint(current, engine.gridSize));
+  }
+  return path;
+}
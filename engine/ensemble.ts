@@ -0,0 +1,195 @@
+import { rasterize, type Cell, type GeoProjection } from './geo';
+import type { PathStatus } from './pathfinding';
+import { PhysicsEngine, type FieldInputs, type Point } from './physics';
+import { gaussian, type Rng } from './random';
+import { smoothGaussian } from './raster';
+import { selectSink } from './resources';
+
+/**
+ * Monte Carlo rota topluluğu (ensemble): ağırlıklar, potansiyel alanı (NDVI gürültüsü)
+ * ve başlangıç noktaları bozularak her sürü için N rota çözülür. Bozulma genlikleri
+ * τ = weights.uncertainty ile ölçeklenir; seçeneklerdeki σ'lar "τ başına" değerlerdir.
+ * Aynı tohum (seed) birebir aynı topluluğu üretir.
+ */
+
+export interface EnsembleOptions {
+  members: number;        // Sürü başına örnek sayısı (N)
+  seed: number;
+  weightSigma: number;    // Ağırlıklarda log-normal σ (τ başına)
+  ndviSigma: number;      // NDVI gürültüsü σ (τ başına)
+  correlationKm: number;  // NDVI gürültüsünün uzamsal korelasyon uzunluğu
+  startJitterKm: number;  // Başlangıç konumu σ (τ başına, km)
+  speedKmh: number;       // Ortalama ilerleme hızı (otlayarak yürüyüş)
+  speedSigma: number;     // Hızda log-normal σ (τ başına)
+  confidence: number;     // Güven aralığı kapsamı (0.9 = %5-%95)
+}
+
+// τ = 0.2 (varsayılan) için: ağırlıklar ±%20, NDVI ±0.05, başlangıç ±2 km
+export const DEFAULT_ENSEMBLE_OPTIONS: EnsembleOptions = {
+  members: 32,
+  seed: 1,
+  weightSigma: 1,
+  ndviSigma: 0.25,
+  correlationKm: 12,
+  startJitterKm: 10,
+  speedKmh: 0.6,
+  speedSigma: 1,
+  confidence: 0.9
+};
+
+export interface EnsembleHerd {
+  id: number;
+  label: string;
+  start: Point;
+}
+
+export interface MemberRoute {
+  herdId: number;
+  status: PathStatus | 'no-sink';
+  sink: string | null;
+  cells: Cell[];          // Rotanın geçtiği tüm hücreler (komşu adımlarla)
+  lengthKm: number;
+  arrivalH: number;
+  action: number;
+}
+
+export interface Interval {
+  mean: number;
+  lo: number;
+  hi: number;
+}
+
+export interface HerdEnsemble {
+  id: number;
+  label: string;
+  members: number;
+  found: number;                          // Rota bulunan üye sayısı
+  visits: number[][];                     // Hücre başına ziyaret olasılığı (0-1)
+  lengthKm: Interval | null;
+  arrivalH: Interval | null;
+  action: Interval | null;
+  sinks: { name: string; share: number }[]; // Hedef kaynak dağılımı (büyükten küçüğe)
+  spreadKm: Interval | null;              // Üye rotasının medoid rotaya ortalama uzaklığı
+}
+
+export interface EnsembleResult {
+  members: number;
+  seed: number;
+  confidence: number;
+  corridor: number[][];   // Tüm sürülerin en yüksek ziyaret olasılığı
+  herds: HerdEnsemble[];
+}
+
+/** Uzamsal olarak korelasyonlu, birim varyanslı Gauss gürültüsü × sigma. */
+function correlatedNoise(engine: PhysicsEngine, sigma: number, correlationKm: number, rng: Rng): number[][] {
+  const { cols, rows } = engine.gridSize;
+  const white = Array(rows).fill(0).map(() => Array(cols).fill(0).map(() => gaussian(rng)));
+  const smooth = smoothGaussian(white, engine.projection.widthKm / (cols - 1), engine.projection.heightKm / (rows - 1), correlationKm);
+  const rms = Math.sqrt(smooth.flat().reduce((acc, v) => acc + v * v, 0) / (rows * cols)) || 1;
+  return smooth.map(row => row.map(v => (v / rms) * sigma));
+}
+
+/**
+ * Tek bir topluluk üyesi: bozulmuş ağırlık ve alanla ayrı bir motorda tüm sürüleri çözer.
+ * Temel motora dokunulmaz.
+ */
+export function sampleMember(engine: PhysicsEngine, base: FieldInputs, herds: EnsembleHerd[], rng: Rng, options: EnsembleOptions = DEFAULT_ENSEMBLE_OPTIONS): MemberRoute[] {
+  const tau = engine.weights.uncertainty;
+  const { cols, rows } = engine.gridSize;
+  const member = new PhysicsEngine(cols, rows, engine.projection);
+  member.suitabilityBias = engine.suitabilityBias;
+  member.weights = {
+    resource: engine.weights.resource * Math.exp(options.weightSigma * tau * gaussian(rng)),
+    safety: engine.weights.safety * Math.exp(options.weightSigma * tau * gaussian(rng)),
+    effort: engine.weights.effort * Math.exp(options.weightSigma * tau * gaussian(rng)),
+    uncertainty: tau
+  };
+
+  // NDVI gürültüsü: uydu matrisi yoksa bölge ortalaması düz bir matris olarak bozulur (ölçeklemesiz)
+  const noise = correlatedNoise(engine, options.ndviSigma * tau, options.correlationKm, rng);
+  const env = noise.map((row, r) => row.map((n, c) =>
+    Math.max(0, Math.min(1, (base.envMatrix ? base.envMatrix[r][c] : base.climate?.ndvi ?? 0.5) + n))));
+  const climate = base.climate && (base.envMatrix ? base.climate : { ...base.climate, ndviRef: undefined });
+  member.generateField(env, base.month, base.incidents, climate, base.resources, base.now);
+
+  return herds.map(herd => {
+    const start = {
+      x: Math.max(0, Math.min(1, herd.start.x + (gaussian(rng) * options.startJitterKm * tau) / engine.projection.widthKm)),
+      y: Math.max(0, Math.min(1, herd.start.y + (gaussian(rng) * options.startJitterKm * tau) / engine.projection.heightKm))
+    };
+    const speed = options.speedKmh * Math.exp(options.speedSigma * tau * gaussian(rng));
+    const sink = selectSink(start, base.resources, base.month, engine.projection);
+    if (!sink) return { herdId: herd.id, status: 'no-sink' as const, sink: null, cells: [], lengthKm: 0, arrivalH: 0, action: 0 };
+
+    const route = member.solveLagrangianPath(start, sink.target);
+    if (route.status !== 'found') return { herdId: herd.id, status: route.status, sink: sink.resource.name, cells: [], lengthKm: 0, arrivalH: 0, action: 0 };
+    const points = route.path.map(p => engine.projection.toCell(p, engine.gridSize));
+    const cells = points.slice(1).reduce((acc, cell, i) => [...acc, ...rasterize(points[i], cell)], points.slice(0, 1));
+    const lengthKm = route.path.slice(1).reduce((acc, p, i) => acc + engine.projection.distanceKm(route.path[i], p), 0);
+    return { herdId: herd.id, status: route.status, sink: sink.resource.name, cells, lengthKm, arrivalH: lengthKm / speed, action: route.action };
+  });
+}
+
+/** Sıralı dizide doğrusal enterpolasyonlu yüzdelik. */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos); const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function interval(values: number[], confidence: number): Interval | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return { mean: values.reduce((acc, v) => acc + v, 0) / values.length, lo: quantile(sorted, tail), hi: quantile(sorted, 1 - tail) };
+}
+
+/** a rotasındaki hücrelerin b rotasına ortalama en kısa uzaklığı (km). */
+function meanDistanceKm(a: Cell[], b: Cell[], projection: GeoProjection, grid: { cols: number; rows: number }): number {
+  const pb = b.map(cell => projection.cellToPoint(cell, grid));
+  return a.reduce((acc, cell) => {
+    const p = projection.cellToPoint(cell, grid);
+    return acc + Math.min(...pb.map(q => projection.distanceKm(p, q)));
+  }, 0) / a.length;
+}
+
+/**
+ * Üye rotalarını sürü başına ziyaret olasılığı, aralıklar ve hedef dağılımına indirger.
+ * Rota güveni, her üyenin medoid rotaya (ziyaret olasılığı ortalaması en yüksek üye) uzaklığıdır.
+ */
+export function summarizeEnsemble(projection: GeoProjection, grid: { cols: number; rows: number }, herds: EnsembleHerd[], members: MemberRoute[][], options: EnsembleOptions = DEFAULT_ENSEMBLE_OPTIONS): EnsembleResult {
+  const blank = () => Array(grid.rows).fill(0).map(() => Array(grid.cols).fill(0));
+  const corridor = blank();
+
+  const summaries = herds.map(herd => {
+    const runs = members.flatMap(routes => routes.filter(route => route.herdId === herd.id));
+    const found = runs.filter(run => run.status === 'found');
+    const visits = blank();
+    // Bir üye aynı hücreden birden fazla geçse de bir kez sayılır
+    found.forEach(run => new Set(run.cells.map(({ r, c }) => r * grid.cols + c)).forEach(idx => {
+      visits[Math.floor(idx / grid.cols)][idx % grid.cols] += 1 / runs.length;
+    }));
+    visits.forEach((row, r) => row.forEach((p, c) => { corridor[r][c] = Math.max(corridor[r][c], p); }));
+
+    const support = (run: MemberRoute) => run.cells.reduce((acc, { r, c }) => acc + visits[r][c], 0) / run.cells.length;
+    const medoid = found.reduce<MemberRoute | null>((best, run) => (!best || support(run) > support(best) ? run : best), null);
+
+    const sinkCounts = new Map<string, number>();
+    runs.forEach(run => { if (run.sink) sinkCounts.set(run.sink, (sinkCounts.get(run.sink) ?? 0) + 1); });
+
+    return {
+      id: herd.id,
+      label: herd.label,
+      members: runs.length,
+      found: found.length,
+      visits,
+      lengthKm: interval(found.map(run => run.lengthKm), options.confidence),
+      arrivalH: interval(found.map(run => run.arrivalH), options.confidence),
+      action: interval(found.map(run => run.action), options.confidence),
+      sinks: [...sinkCounts.entries()].map(([name, n]) => ({ name, share: n / runs.length })).sort((a, b) => b.share - a.share),
+      spreadKm: medoid && interval(found.map(run => meanDistanceKm(run.cells, medoid.cells, projection, grid)), options.confidence)
+    };
+  });
+
+  return { members: options.members, seed: options.seed, confidence: options.confidence, corridor, herds: summaries };
+}
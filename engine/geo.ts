@@ -0,0 +1,122 @@
+import type { Point } from './physics';
+
+/**
+ * Coğrafi referans katmanı: enlem/boylam ↔ normalize grid (0-1) ↔ canvas pikseli.
+ * Motor, harita ve sync payload'ı aynı projeksiyonu paylaşır.
+ */
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+// main.py'deki AOI_BOUNDS ile aynı sıra: [LonMin, LatMin, LonMax, LatMax]
+export type AOIBounds = [number, number, number, number];
+
+export interface GridSize {
+  cols: number;
+  rows: number;
+}
+
+export interface Cell {
+  r: number;
+  c: number;
+}
+
+export const BOR_SECTOR: AOIBounds = [31.0, 6.0, 32.5, 7.5];
+
+const KM_PER_DEG_LAT = 110.574;
+const KM_PER_DEG_LON_EQUATOR = 111.32;
+
+export class GeoProjection {
+  readonly bounds: AOIBounds;
+  readonly widthKm: number;   // AOI'nin doğu-batı genişliği
+  readonly heightKm: number;  // AOI'nin kuzey-güney yüksekliği
+
+  constructor(bounds: AOIBounds = BOR_SECTOR) {
+    const [lonMin, latMin, lonMax, latMax] = bounds;
+    if (!(lonMax > lonMin) || !(latMax > latMin)) {
+      throw new RangeError(`Invalid AOI bounds: [${bounds.join(', ')}]`);
+    }
+    this.bounds = bounds;
+    // Sektör küçük olduğu için eşdikdörtgen (equirectangular) yaklaşım yeterli
+    const midLat = (latMin + latMax) / 2;
+    this.widthKm = (lonMax - lonMin) * KM_PER_DEG_LON_EQUATOR * Math.cos(midLat * Math.PI / 180);
+    this.heightKm = (latMax - latMin) * KM_PER_DEG_LAT;
+  }
+
+  /** Enlem/Boylam → normalize düzlem (ekranın tepesi kuzey, y = 0). */
+  toPoint(ll: LatLon): Point {
+    const [lonMin, latMin, lonMax, latMax] = this.bounds;
+    return {
+      x: (ll.lon - lonMin) / (lonMax - lonMin),
+      y: 1.0 - (ll.lat - latMin) / (latMax - latMin)
+    };
+  }
+
+  /** Normalize düzlem → Enlem/Boylam. */
+  toLatLon(p: Point): LatLon {
+    const [lonMin, latMin, lonMax, latMax] = this.bounds;
+    return {
+      lat: latMin + (1.0 - p.y) * (latMax - latMin),
+      lon: lonMin + p.x * (lonMax - lonMin)
+    };
+  }
+
+  contains(ll: LatLon): boolean {
+    const [lonMin, latMin, lonMax, latMax] = this.bounds;
+    return ll.lon >= lonMin && ll.lon <= lonMax && ll.lat >= latMin && ll.lat <= latMax;
+  }
+
+  /** Normalize nokta → en yakın grid hücresi (generateField'daki c / (cols - 1) hizası). */
+  toCell(p: Point, grid: GridSize): Cell {
+    const clamp = (v: number, max: number) => Math.min(max, Math.max(0, v));
+    return {
+      r: clamp(Math.round(p.y * (grid.rows - 1)), grid.rows - 1),
+      c: clamp(Math.round(p.x * (grid.cols - 1)), grid.cols - 1)
+    };
+  }
+
+  /** Grid hücresi → normalize nokta. */
+  cellToPoint(cell: Cell, grid: GridSize): Point {
+    return { x: cell.c / (grid.cols - 1), y: cell.r / (grid.rows - 1) };
+  }
+
+  /** Normalize nokta → canvas pikseli. */
+  toCanvas(p: Point, width: number, height: number): Point {
+    return { x: p.x * width, y: p.y * height };
+  }
+
+  /** Canvas pikseli (veya DOM ofseti) → normalize nokta. */
+  fromCanvas(px: number, py: number, width: number, height: number): Point {
+    return { x: px / width, y: py / height };
+  }
+
+  /** İki normalize nokta arasındaki yer mesafesi (km). */
+  distanceKm(a: Point, b: Point): number {
+    return Math.sqrt(Math.pow((a.x - b.x) * this.widthKm, 2) + Math.pow((a.y - b.y) * this.heightKm, 2));
+  }
+
+  /** Büyük daire mesafesi (km), AOI dışındaki ham kayıtlar için. */
+  static haversineKm(a: LatLon, b: LatLon): number {
+    const R = 6371.0088;
+    const rad = Math.PI / 180;
+    const dLat = (b.lat - a.lat) * rad;
+    const dLon = (b.lon - a.lon) * rad;
+    const h = Math.pow(Math.sin(dLat / 2), 2) + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.pow(Math.sin(dLon / 2), 2);
+    return 2 * R * Math.asin(Math.sqrt(h));
+  }
+}
+
+/** İki hücre arasını komşu adımlara böler (Bresenham benzeri). */
+export function rasterize(a: Cell, b: Cell): Cell[] {
+  const cells: Cell[] = [];
+  const n = Math.max(Math.abs(b.r - a.r), Math.abs(b.c - a.c));
+  for (let i = 1; i <= n; i++) {
+    cells.push({ r: Math.round(a.r + (b.r - a.r) * i / n), c: Math.round(a.c + (b.c - a.c) * i / n) });
+  }
+  return cells;
+}
+
+export const formatLatLon = (ll: LatLon, digits: number = 4) =>
+  `${Math.abs(ll.lat).toFixed(digits)}°${ll.lat >= 0 ? 'N' : 'S'} ${Math.abs(ll.lon).toFixed(digits)}°${ll.lon >= 0 ? 'E' : 'W'}`;
@@ -0,0 +1,63 @@
+import type { Point } from './physics';
+
+/**
+ * Tipli ve ağırlıklı olay (incident) modeli. Her tipin kendi itme profili vardır;
+ * etki zamanla yarı-ömrüne göre söner. FIRMS sıcak noktaları, elle girilen olaylar
+ * ve saha raporları aynı listede tutulur.
+ */
+
+export type IncidentType = 'clash' | 'raid' | 'roadblock' | 'fire';
+export type IncidentSource = 'firms' | 'manual' | 'field-report';
+
+export interface Incident extends Point {
+  id: string;
+  type: IncidentType;
+  severity: number;     // Çarpan: 1 = standart (bkz. SEVERITY_LEVELS)
+  intensity?: number;   // FIRMS parlaklık sıcaklığı (K); varsa şiddeti ölçekler
+  time: number;         // Olay zamanı (epoch ms)
+  source: IncidentSource;
+  halfLifeH: number;    // Etkinin yarıya inme süresi (saat); 0 = sönmez
+}
+
+export interface RepulsionProfile {
+  strength: number;     // weights.safety çarpanı
+  rangeScale: number;   // ranges.conflictKm çarpanı
+  halfLifeH: number;    // Varsayılan yarı-ömür
+}
+
+export const INCIDENT_PROFILES: Record<IncidentType, RepulsionProfile> = {
+  clash: { strength: 1, rangeScale: 1, halfLifeH: 24 * 7 },        // Eski tek tip çatışma noktası
+  raid: { strength: 1.4, rangeScale: 1.5, halfLifeH: 24 * 14 },    // Baskın bölgesinden uzun süre uzak durulur
+  roadblock: { strength: 0.9, rangeScale: 0.4, halfLifeH: 24 * 3 }, // Dar ve kısa ömürlü engel
+  fire: { strength: 0.6, rangeScale: 0.6, halfLifeH: 36 }           // Yangın / FIRMS sıcak noktası
+};
+
+export const INCIDENT_TYPES = Object.keys(INCIDENT_PROFILES) as IncidentType[];
+export const INCIDENT_SOURCES: IncidentSource[] = ['firms', 'manual', 'field-report'];
+
+export const SEVERITY_LEVELS = { low: 0.5, medium: 1, high: 1.5, critical: 2 };
+export type SeverityLevel = keyof typeof SEVERITY_LEVELS;
+
+/** Yaşa göre sönüm: 0.5^(yaş / yarı-ömür); gelecekteki olaylar tam ağırlık alır. */
+export function decayFactor(incident: Incident, now: number): number {
+  if (!(incident.halfLifeH > 0)) return 1;
+  const ageH = Math.max(0, now - incident.time) / 3_600_000;
+  return Math.pow(0.5, ageH / incident.halfLifeH);
+}
+
+/** Sayısal şiddete en yakın seviye (arayüz etiketi için). */
+export const severityLevelOf = (severity: number): SeverityLevel =>
+  (Object.keys(SEVERITY_LEVELS) as SeverityLevel[]).reduce((best, k) =>
+    (Math.abs(SEVERITY_LEVELS[k] - severity) < Math.abs(SEVERITY_LEVELS[best] - severity) ? k : best));
+
+export function createIncident(at: Point, type: IncidentType, fields: Partial<Omit<Incident, 'x' | 'y' | 'type'>> = {}): Incident {
+  return {
+    id: `${type}-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+    severity: SEVERITY_LEVELS.medium,
+    time: Date.now(),
+    source: 'manual',
+    halfLifeH: INCIDENT_PROFILES[type].halfLifeH,
+    ...fields,
+    x: at.x, y: at.y, type
+  };
+}
@@ -0,0 +1,156 @@
+import type { AOIBounds } from './geo';
+import type { PhysicsEngine, Point, TimedPoint } from './physics';
+import { smoothGaussian } from './raster';
+
+/**
+ * Öğrenilmiş model: ağırlıklar + suitabilityBias haritası.
+ * Sürümlü JSON olarak saklanır, böylece kalibre edilmiş motor oturumlar arası yeniden yüklenir.
+ */
+
+export const MODEL_FORMAT = 'cattle-eye/physics-model';
+export const MODEL_VERSION = 1;
+
+export interface EngineModel {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  createdAt: string;
+  grid: { cols: number; rows: number };
+  aoiBounds: AOIBounds;
+  weights: PhysicsEngine['weights'];
+  suitabilityBias: number[][];
+}
+
+export interface BiasOptions {
+  kernelKm?: number;     // Gauss çekirdeği genişliği (σ)
+  halfLifeDays?: number; // Eski ziyaretlerin ağırlığı bu sürede yarıya iner
+  strength?: number;     // En sık ziyaret edilen hücrenin bias değeri
+  now?: number;          // Bozunma referans zamanı (epoch ms)
+}
+
+export class ModelFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelFormatError';
+  }
+}
+
+/** Model başka bir AOI için eğitilmiş: bias haritası bu sektöre ait değil. */
+export class ModelAoiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelAoiError';
+  }
+}
+
+/** Model başka bir grid boyutu için eğitilmiş: bias hücreleri bu motorunkilerle örtüşmüyor. */
+export class ModelGridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelGridError';
+  }
+}
+
+const AOI_TOLERANCE_DEG = 1e-6;
+const WEIGHT_KEYS = ['resource', 'safety', 'effort', 'uncertainty'] as const;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPositiveInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v > 0;
+
+/**
+ * Geçmiş izlerin hücre ziyaret frekansından bias haritası üretir.
+ * Ziyaretler zamanla üstel söner, sonra km cinsinden Gauss çekirdeğiyle yumuşatılır.
+ */
+export function learnSuitabilityBias(engine: PhysicsEngine, tracks: (Point | TimedPoint)[][], options: BiasOptions = {}): number[][] {
+  const { kernelKm = 5, halfLifeDays = 90, strength = 0.3, now = Date.now() } = options;
+  const { cols, rows } = engine.gridSize;
+  const visits = Array(rows).fill(0).map(() => Array(cols).fill(0));
+
+  tracks.forEach(track => track.forEach(p => {
+    const { r, c } = engine.projection.toCell(p, engine.gridSize);
+    const time = (p as TimedPoint).time;
+    const ageDays = typeof time === 'number' ? Math.max(0, now - time) / 86_400_000 : 0;
+    visits[r][c] += Math.pow(0.5, ageDays / halfLifeDays);
+  }));
+
+  const smoothed = smoothGaussian(visits, engine.projection.widthKm / (cols - 1), engine.projection.heightKm / (rows - 1), kernelKm);
+
+  const max = Math.max(0, ...smoothed.map(row => Math.max(...row)));
+  return smoothed.map(row => row.map(v => (max > 0 ? (v / max) * strength : 0)));
+}
+
+export function toModel(engine: PhysicsEngine): EngineModel {
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_VERSION,
+    createdAt: new Date().toISOString(),
+    grid: { ...engine.gridSize },
+    aoiBounds: engine.projection.bounds,
+    weights: { ...engine.weights },
+    suitabilityBias: engine.suitabilityBias.map(row => [...row])
+  };
+}
+
+export function serializeModel(engine: PhysicsEngine): string {
+  return JSON.stringify(toModel(engine));
+}
+
+export function parseModel(json: string): EngineModel {
+  let raw: unknown;
+  try { raw = JSON.parse(json); } catch { throw new ModelFormatError('Model file is not valid JSON'); }
+
+  if (!isRecord(raw) || raw.format !== MODEL_FORMAT) throw new ModelFormatError('Not a Cattle-Eye physics model');
+  const { version, createdAt, grid, weights, aoiBounds, suitabilityBias } = raw;
+  if (!isPositiveInt(version) || version > MODEL_VERSION) throw new ModelFormatError(`Unsupported model version ${String(version)}`);
+  if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) throw new ModelFormatError('Model createdAt must be an ISO date');
+  if (!isRecord(grid) || !isPositiveInt(grid.cols) || !isPositiveInt(grid.rows) || grid.cols < 2 || grid.rows < 2) {
+    throw new ModelFormatError('Model grid must have integer cols and rows of at least 2');
+  }
+  const { cols, rows } = grid;
+
+  if (!isRecord(weights)) throw new ModelFormatError('Model weights are missing');
+  const parsedWeights = {} as PhysicsEngine['weights'];
+  for (const key of WEIGHT_KEYS) {
+    const w = weights[key];
+    if (!isFiniteNumber(w)) throw new ModelFormatError(`Model weight "${key}" is missing`);
+    // uncertainty = τ politikada ve toplulukta bölendir; sıfır / negatif ağırlık fiziksel de değildir
+    if (w <= 0) throw new ModelFormatError(`Model weight "${key}" must be positive`);
+    parsedWeights[key] = w;
+  }
+
+  if (!Array.isArray(aoiBounds) || aoiBounds.length !== 4 || !aoiBounds.every(isFiniteNumber) || aoiBounds[0] >= aoiBounds[2] || aoiBounds[1] >= aoiBounds[3]) {
+    throw new ModelFormatError('Model aoiBounds must be [lonMin, latMin, lonMax, latMax]');
+  }
+  if (!Array.isArray(suitabilityBias) || suitabilityBias.length !== rows ||
+      !suitabilityBias.every(row => Array.isArray(row) && row.length === cols && row.every(isFiniteNumber))) {
+    throw new ModelFormatError(`Model suitabilityBias must be a ${rows}×${cols} numeric matrix`);
+  }
+
+  return {
+    format: MODEL_FORMAT,
+    version,
+    createdAt,
+    grid: { cols, rows },
+    aoiBounds: [aoiBounds[0], aoiBounds[1], aoiBounds[2], aoiBounds[3]],
+    weights: parsedWeights,
+    suitabilityBias: suitabilityBias as number[][]
+  };
+}
+
+/**
+ * Modeli motora uygular. Farklı bir AOI (ModelAoiError) ya da grid boyutu (ModelGridError)
+ * için eğitilmiş model reddedilir, motor değişmeden kalır.
+ */
+export function applyModel(engine: PhysicsEngine, model: EngineModel) {
+  const current = engine.projection.bounds;
+  if (model.aoiBounds.some((v, i) => Math.abs(v - current[i]) > AOI_TOLERANCE_DEG)) {
+    const fmt = (b: AOIBounds) => `[${b.map(v => v.toFixed(3)).join(', ')}]`;
+    throw new ModelAoiError(`Model was trained for AOI ${fmt(model.aoiBounds)}, current sector is ${fmt(current)}`);
+  }
+  const { cols, rows } = engine.gridSize;
+  if (model.grid.cols !== cols || model.grid.rows !== rows) {
+    throw new ModelGridError(`Model was trained on a ${model.grid.cols}×${model.grid.rows} grid, engine uses ${cols}×${rows}`);
+  }
+  engine.weights = { ...model.weights };
+  engine.suitabilityBias = model.suitabilityBias.map(row => [...row]);
+}
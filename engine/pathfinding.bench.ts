@@ -0,0 +1,84 @@
+import type { Cell, GridSize } from './geo';
+import { solveGridPath } from './pathfinding';
+import { PhysicsEngine } from './physics';
+
+/**
+ * 256×192 grid üzerinde eski (her pop'ta sıralayan) A* ile ikili yığın çözücünün kıyası.
+ *   npx tsx engine/pathfinding.bench.ts
+ * Yeni çözücü daha yavaşsa ya da daha pahalı bir rota bulursa hata fırlatır.
+ */
+
+const GRID: GridSize = { cols: 256, rows: 192 };
+const ROUTES: [Cell, Cell][] = [
+  [{ r: 10, c: 10 }, { r: 180, c: 240 }],
+  [{ r: 180, c: 20 }, { r: 20, c: 230 }],
+  [{ r: 96, c: 5 }, { r: 96, c: 250 }]
+];
+
+/** user-003 öncesi solveLagrangianPath: dizi sıralamalı open set, g-skor denetimsiz tekrar eklemeler. */
+function legacySolve(field: number[][], grid: GridSize, start: Cell, end: Cell): { cells: Cell[]; expanded: number } {
+  const openSet: any[] = [{ ...start, g: 0, h: 0, f: 0, parent: null }];
+  const closedSet = new Set<string>();
+  let expanded = 0;
+
+  while (openSet.length > 0) {
+    openSet.sort((a, b) => a.f - b.f);
+    const current = openSet.shift();
+
+    if (current.r === end.r && current.c === end.c) {
+      const cells: Cell[] = [];
+      for (let curr = current; curr; curr = curr.parent) cells.push({ r: curr.r, c: curr.c });
+      return { cells: cells.reverse(), expanded };
+    }
+
+    const key = `${current.r},${current.c}`;
+    if (closedSet.has(key)) continue;
+    closedSet.add(key);
+    expanded++;
+
+    for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1]]) {
+      const nr = current.r + dr;
+      const nc = current.c + dc;
+      if (nr >= 0 && nr < grid.rows && nc >= 0 && nc < grid.cols) {
+        const g = current.g + field[nr][nc];
+        const h = Math.sqrt(Math.pow(nr - end.r, 2) + Math.pow(nc - end.c, 2)) * 0.1;
+        openSet.push({ r: nr, c: nc, g, h, f: g + h, parent: current });
+      }
+    }
+  }
+  return { cells: [], expanded };
+}
+
+/** Rotanın yeni çözücünün maliyet modeliyle (V × adım uzunluğu) aksiyonu; kıyas aynı ölçüyle yapılır. */
+function actionOf(field: number[][], cells: Cell[]): number {
+  return cells.slice(1).reduce((acc, cell, i) => acc + field[cell.r][cell.c] * Math.hypot(cell.r - cells[i].r, cell.c - cells[i].c), 0);
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const started = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - started };
+}
+
+const engine = new PhysicsEngine(GRID.cols, GRID.rows);
+const field = engine.generateField(null, 3, [], { ndvi: 0.42, lst: 38 }, undefined, 0);
+
+let legacyTotal = 0;
+let heapTotal = 0;
+ROUTES.forEach(([start, end], i) => {
+  const legacy = time(() => legacySolve(field, GRID, start, end));
+  const heap = time(() => solveGridPath(field, GRID, start, end));
+  if (heap.result.status !== 'found') throw new Error(`Route ${i + 1}: heap solver returned ${heap.result.status}`);
+  const legacyAction = actionOf(field, legacy.result.cells);
+  if (heap.result.action > legacyAction + 1e-9) throw new Error(`Route ${i + 1}: heap solver found a costlier route (${heap.result.action} > ${legacyAction})`);
+
+  legacyTotal += legacy.ms;
+  heapTotal += heap.ms;
+  console.log(
+    `route ${i + 1}: legacy ${legacy.ms.toFixed(0)} ms / ${legacy.result.expanded} expanded / S ${legacyAction.toFixed(2)}` +
+    ` | heap ${heap.ms.toFixed(1)} ms / ${heap.result.expanded} expanded / S ${heap.result.action.toFixed(2)}`
+  );
+});
+
+console.log(`256x192 total: legacy ${legacyTotal.toFixed(0)} ms, heap ${heapTotal.toFixed(1)} ms (${(legacyTotal / heapTotal).toFixed(1)}× faster)`);
+if (heapTotal >= legacyTotal) throw new Error('Heap solver is not faster than the legacy solver');
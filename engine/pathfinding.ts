@@ -0,0 +1,136 @@
+import type { Cell, GridSize } from './geo';
+
+/**
+ * Least-action yol çözücü: ikili yığın (binary heap) tabanlı A*.
+ * Hücre maliyeti = potansiyel V, çapraz adım √2 katı.
+ */
+
+export type PathStatus = 'found' | 'unreachable' | 'cost-cap' | 'expansion-limit';
+
+export interface GridPathResult {
+  status: PathStatus;
+  cells: Cell[];        // Başlangıçtan hedefe (bulunamazsa boş)
+  action: number;       // Toplam Lagrangian maliyet (S)
+  expanded: number;     // Kapalı kümeye alınan düğüm sayısı
+}
+
+export interface PathOptions {
+  maxCost?: number;        // Bu maliyeti aşan dallar budanır
+  maxExpansions?: number;  // Erken çıkış: en fazla bu kadar düğüm genişlet
+}
+
+const SQRT2 = Math.SQRT2;
+const NEIGHBORS: [number, number, number][] = [
+  [-1, 0, 1], [1, 0, 1], [0, -1, 1], [0, 1, 1],
+  [-1, -1, SQRT2], [-1, 1, SQRT2], [1, -1, SQRT2], [1, 1, SQRT2]
+];
+
+/** f-skoruna göre min-heap; düğümler düz indeks (r * cols + c) olarak tutulur. */
+export class MinHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  get size() { return this.nodes.length; }
+
+  push(node: number, key: number) {
+    this.nodes.push(node); this.keys.push(key);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent); i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.nodes.length === 0) return undefined;
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!; const lastKey = this.keys.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode; this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1; const r = l + 1;
+        let m = i;
+        if (l < this.nodes.length && this.keys[l] < this.keys[m]) m = l;
+        if (r < this.nodes.length && this.keys[r] < this.keys[m]) m = r;
+        if (m === i) break;
+        this.swap(i, m); i = m;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+/**
+ * Octile mesafe × en küçük hücre maliyeti: hiçbir zaman gerçek maliyeti aşmaz
+ * (admissible), bu yüzden bulunan yol optimaldir.
+ */
+const octile = (dr: number, dc: number) => {
+  const a = Math.abs(dr); const b = Math.abs(dc);
+  return Math.max(a, b) + (SQRT2 - 1) * Math.min(a, b);
+};
+
+export function solveGridPath(field: number[][], grid: GridSize, start: Cell, end: Cell, options: PathOptions = {}): GridPathResult {
+  const { cols, rows } = grid;
+  const maxCost = options.maxCost ?? Infinity;
+  const maxExpansions = options.maxExpansions ?? Infinity;
+
+  let minCost = Infinity;
+  for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) minCost = Math.min(minCost, field[r][c]);
+  minCost = Math.max(0, minCost);
+
+  const size = cols * rows;
+  const g = new Float64Array(size).fill(Infinity);
+  const parent = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const open = new MinHeap();
+
+  const startIdx = start.r * cols + start.c;
+  const endIdx = end.r * cols + end.c;
+  const h = (r: number, c: number) => octile(r - end.r, c - end.c) * minCost;
+
+  g[startIdx] = 0;
+  open.push(startIdx, h(start.r, start.c));
+  let expanded = 0;
+  let capped = false;
+
+  while (open.size > 0) {
+    const current = open.pop()!;
+    if (closed[current]) continue; // Eski (daha kötü) kopya
+    closed[current] = 1;
+
+    if (current === endIdx) {
+      const cells: Cell[] = [];
+      for (let n = current; n !== -1; n = parent[n]) cells.push({ r: Math.floor(n / cols), c: n % cols });
+      return { status: 'found', cells: cells.reverse(), action: g[current], expanded };
+    }
+
+    if (++expanded > maxExpansions) {
+      return { status: 'expansion-limit', cells: [], action: Infinity, expanded: expanded - 1 };
+    }
+
+    const cr = Math.floor(current / cols); const cc = current % cols;
+    for (const [dr, dc, len] of NEIGHBORS) {
+      const nr = cr + dr; const nc = cc + dc;
+      if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+      const next = nr * cols + nc;
+      if (closed[next]) continue;
+
+      const tentative = g[current] + field[nr][nc] * len; // Lagrangian maliyet birikimi
+      if (tentative > maxCost) { capped = true; continue; }
+      if (tentative >= g[next]) continue; // Daha iyi bir yol zaten biliniyor
+
+      g[next] = tentative;
+      parent[next] = current;
+      open.push(next, tentative + h(nr, nc));
+    }
+  }
+
+  return { status: capped ? 'cost-cap' : 'unreachable', cells: [], action: Infinity, expanded };
+}
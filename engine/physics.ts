@@ -1,8 +1,31 @@
+import { GeoProjection } from './geo';
+import { calibrateWeights, type CalibrationOptions, type CalibrationReport } from './calibration';
+import { DEFAULT_RESOURCES, availabilityAt, distanceToResource, type Resource } from './resources';
+import { DEFAULT_ANOMALY_THRESHOLDS, detectAnomalies, headingChange, type AnomalyThresholds, type PointAnomaly } from './anomaly';
+import { computeRiskRaster, DEFAULT_RISK_WEIGHTS, type RiskInputs, type RiskRaster } from './risk';
+import { learnSuitabilityBias, type BiasOptions } from './model';
+import { solveGridPath, type PathOptions, type PathStatus } from './pathfinding';
+import { INCIDENT_PROFILES, decayFactor, type Incident } from './incidents';
+
 export interface Point {
   x: number;
   y: number;
 }
 
+// GPS kaydı gibi zaman damgalı nokta (time: epoch ms)
+export interface TimedPoint extends Point {
+  time: number;
+}
+
+export interface SegmentStats {
+  start: number;          // observedPath içindeki ilk indeks
+  end: number;            // Son indeks (dahil)
+  distanceKm: number;
+  durationH: number;
+  meanSpeedKmh: number;
+  dwellH: number;         // dwellSpeedKmh altında geçen süre (otlanma / kamp)
+}
+
 export interface PhysicsMetrics {
   t: number[];        
   v: number[];        
@@ -11,23 +34,85 @@ export interface PhysicsMetrics {
   entropy: number;    // BU SATIRI EKLE (Kırmızılık anında gidecek)
   naturalness: number; 
   predictiveError: number; 
+  segments: SegmentStats[];  // Zaman boşluklarıyla ayrılmış parçalar
+  totalDistanceKm: number;
+  dwellH: number;
+}
+
+export const isTimedPoint = (p: Point): p is TimedPoint => typeof (p as TimedPoint).time === 'number';
+
+export interface LagrangianPath {
+  status: PathStatus;
+  path: Point[];      // Normalize düzlemde rota (bulunamazsa boş)
+  action: number;     // Toplam aksiyon S (potansiyel × adım uzunluğu)
+  expanded: number;   // A*'ın genişlettiği düğüm sayısı
+}
+
+// Bölgesel iklim girdileri (GEE özet değerleri veya mevsimsel klimatoloji)
+export interface Climate {
+  ndvi: number;      // Bölge ortalama NDVI
+  lst: number;       // Yüzey sıcaklığı (°C)
+  ndviRef?: number;  // envMatrix'in alındığı andaki NDVI (ölçekleme referansı)
+}
+
+export interface FieldInputs {
+  envMatrix: number[][] | null;
+  month: number;
+  incidents: Incident[];
+  climate?: Climate;
+  resources: Resource[];
+  now: number;          // Olay sönümü için referans zaman (epoch ms)
 }
 
 export class PhysicsEngine {
   gridSize: { cols: number; rows: number };
   potentialField: number[][]; // V-Map (Çevre basıncı)
   suitabilityBias: number[][]; // Geçmiş veriden öğrenilen tercihler
-  
+  projection: GeoProjection; // Enlem/Boylam ↔ grid dönüşümü (AOI)
+  fieldInputs: FieldInputs = { envMatrix: null, month: 2, incidents: [], resources: DEFAULT_RESOURCES, now: 0 }; // Son alan girdileri
+
   // ML ile optimize edilecek katsayılar
   weights = {
     resource: 0.65,    // Su ve otun çekim gücü (MaxEnt etkisi)
     safety: 1.8,      // Çatışmadan kaçınma gücü
-    effort: 2200,      // Hareket maliyeti çarpanı (Lagrangian Scale)
+    effort: 0.08,      // Hareket maliyeti çarpanı, km² başına (Lagrangian Scale)
     uncertainty: 0.2  // Bilgi boşluğu payı (Active Inference)
   };
 
-  constructor(cols: number, rows: number) {
+  // Mesafe ölçekleri (km): e-katlanma uzaklıkları
+  ranges = {
+    conflictKm: 6.6,   // Çatışma bariyerinin etki yarıçapı
+    waterKm: 27.6      // Su kaynağının çekim yarıçapı
+  };
+
+  // FIRMS yoğunluğu → bariyer ağırlığı: arka plan sıcaklığında 0, referansta 1
+  intensityScale = {
+    backgroundK: 300,
+    referenceK: 350,
+    maxWeight: 3
+  };
+
+  // Isı stresi: konfor eşiğinin üstündeki her °C potansiyeli yükseltir, su yakını serinletir
+  thermal = {
+    comfortC: 32,
+    stressPerC: 0.035
+  };
+
+  // Risk haritası faktör ağırlıkları (çatışma, yoğunluk, kıtlık, anomali)
+  riskWeights = { ...DEFAULT_RISK_WEIGHTS };
+
+  // Nokta bazlı anomali eşikleri (dönüş, hız, sapma, geri dönüş)
+  anomalyThresholds = { ...DEFAULT_ANOMALY_THRESHOLDS };
+
+  // Zaman damgalı izler için eşikler (damgasız izlerde her adım 1 saat sayılır)
+  timing = {
+    maxGapH: 6,         // Bundan uzun kayıt boşluğu izi yeni segmente böler
+    dwellSpeedKmh: 0.2  // Bu hızın altı "bekleme" sayılır
+  };
+
+  constructor(cols: number, rows: number, projection: GeoProjection = new GeoProjection()) {
     this.gridSize = { cols, rows };
+    this.projection = projection;
     this.potentialField = Array(rows).fill(0).map(() => Array(cols).fill(0.5));
     this.suitabilityBias = Array(rows).fill(0).map(() => Array(cols).fill(0));
   }
@@ -35,37 +120,71 @@ export class PhysicsEngine {
   /**
    * ML ile ağırlıkları kalibre eder (Inverse Reinforcement Learning - IRL)
    * GEE'den gelen gerçek sığır yollarıyla (ground-truth) tahminleri kıyaslar.
+   * Rota seçimini belirleyen ağırlıklar yörünge olabilirliğine göre uydurulur; bkz. calibration.ts.
    */
-  optimize(observedPath: Point[], predictedPath: Point[], learningRate: number = 0.05) {
-    // 1. Prediction Drift: Gerçek yol tahminden ne kadar uzakta?
-    const drift = observedPath.reduce((acc, p, i) => {
-      const pred = predictedPath[i] || predictedPath[predictedPath.length - 1];
-      return acc + Math.sqrt(Math.pow(p.x - pred.x, 2) + Math.pow(p.y - pred.y, 2));
-    }, 0) / observedPath.length;
-
-    // 2. Katsayı Güncelleme (Gradient Descent Basitleştirmesi)
-    if (drift > 0.1) {
-      // Sürpriz büyükse çatışma korkusu ağırlığını (safety) artır
-      this.weights.safety += learningRate * drift;
-      this.weights.resource -= learningRate * (drift / 2);
-    } else {
-      // Hareket beklentiye yakınsa çevresel kaynak (resource) çekimini güçlendir
-      this.weights.resource += learningRate * (1 - drift);
-    }
-    
-    // Katsayı sınırlarını koru
-    this.weights.safety = Math.max(0.5, Math.min(3.5, this.weights.safety));
-    this.weights.resource = Math.max(0.1, Math.min(1.0, this.weights.resource));
+  optimize(observedPaths: Point[][], options: CalibrationOptions = {}): CalibrationReport {
+    return calibrateWeights(this, observedPaths, options);
+  }
+
+  /**
+   * Geçmiş hareketten suitabilityBias öğrenir (ziyaret frekansı, zamansal sönüm, çekirdek yumuşatma).
+   * Alanı yeni bias ile yeniden kurar.
+   */
+  learnBias(historicalPaths: (Point | TimedPoint)[][], options: BiasOptions = {}) {
+    this.suitabilityBias = learnSuitabilityBias(this, historicalPaths, options);
+    this.regenerateField();
+    return this.suitabilityBias;
+  }
+
+  /** FIRMS parlaklığından şiddet çarpanı (yoğunluğu bilinmeyen olaylar 1 sayılır). */
+  intensityWeight(intensity?: number): number {
+    if (typeof intensity !== 'number') return 1;
+    const { backgroundK, referenceK, maxWeight } = this.intensityScale;
+    return Math.max(0, Math.min(maxWeight, (intensity - backgroundK) / (referenceK - backgroundK)));
+  }
+
+  /** Olayın şu anki itme gücü: tip profili × şiddet × FIRMS yoğunluğu × zaman sönümü. */
+  incidentStrength(incident: Incident, now: number): number {
+    return INCIDENT_PROFILES[incident.type].strength * incident.severity * this.intensityWeight(incident.intensity) * decayFactor(incident, now);
+  }
+
+  incidentRangeKm(incident: Incident): number {
+    return this.ranges.conflictKm * INCIDENT_PROFILES[incident.type].rangeScale;
+  }
+
+  /** Son generateField girdileriyle alanı güncel ağırlıklarla yeniden kurar. */
+  regenerateField() {
+    const { envMatrix, month, incidents, climate, resources, now } = this.fieldInputs;
+    return this.generateField(envMatrix, month, incidents, climate, resources, now);
+  }
+
+  /** Başka bir motorda (ör. worker) hesaplanmış alanı yeniden hesaplamadan devralır. */
+  adoptField(field: number[][], inputs: FieldInputs) {
+    this.fieldInputs = inputs;
+    this.potentialField = field;
   }
 
   /**
    * Potansiyel Alanı (Havzayı) oluşturur.
    * GEE'den gelen matris verisiyle (MaxEnt çıktısı) uyumludur.
    */
-  generateField(envMatrix: number[][] | null, month: number, conflictPoints: Point[]) {
-    // Mevsimsel döngüyü Sin/Cos (Dairesel) olarak kodla (Önemli Yenilik!)
-    const seasonSin = Math.sin(2 * Math.PI * month / 12);
-    const seasonImpact = Math.abs(seasonSin); // Kurak/Yağış yoğunluğu
+  generateField(envMatrix: number[][] | null, month: number, incidents: Incident[], climate?: Climate, resources: Resource[] = DEFAULT_RESOURCES, now: number = Date.now()) {
+    this.fieldInputs = { envMatrix, month, incidents, climate, resources, now };
+    // Mevsimsel döngü artık her kaynağın kendi aylık erişilebilirliğinde (availability)
+    const active = resources
+      .map(res => ({ res, availability: availabilityAt(res, month) }))
+      .filter(a => a.availability > 0);
+
+    // Sıcaklık ve yeşillik: uydu anlık görüntüsü mevsimin NDVI'ına göre ölçeklenir
+    const heat = climate ? Math.max(0, climate.lst - this.thermal.comfortC) * this.thermal.stressPerC : 0;
+    const ndviScale = climate && envMatrix && climate.ndviRef ? climate.ndvi / climate.ndviRef : 1;
+    // Olay başına güç ve menzil bir kez hesaplanır; sönmüş olaylar atlanır
+    const barriers = incidents
+      .map(inc => ({ at: inc as Point, strength: this.incidentStrength(inc, now), rangeKm: this.incidentRangeKm(inc) }))
+      .filter(b => b.strength > 1e-3);
+
+    // Her çağrıda yeni matris: React memo'ları alanın değiştiğini referanstan anlar
+    const field = Array(this.gridSize.rows).fill(0).map(() => Array(this.gridSize.cols).fill(0));
 
     for (let r = 0; r < this.gridSize.rows; r++) {
       for (let c = 0; c < this.gridSize.cols; c++) {
@@ -74,27 +193,34 @@ export class PhysicsEngine {
 
         // 1. MaxEnt Uygunluk Puanı (HSI)
         // Eğer dışarıdan GEE verisi gelirse onu kullan, yoksa simüle et
-        let suitability = envMatrix ? envMatrix[r][c] : 0.5;
+        let suitability = envMatrix ? envMatrix[r][c] * ndviScale : (climate ? climate.ndvi : 0.5);
         
         // 2. Aktif Engeller ve Çekim Merkezleri (Gauss Dağılımı)
         let repulsion = 0;
-        conflictPoints.forEach(cp => {
-          const d = Math.sqrt(Math.pow(x - cp.x, 2) + Math.pow(y - cp.y, 2));
-          repulsion += this.weights.safety * Math.exp(-d * 25); // Çok keskin bariyer
+        barriers.forEach(b => {
+          const d = this.projection.distanceKm({ x, y }, b.at);
+          repulsion += b.strength * this.weights.safety * Math.exp(-d / b.rangeKm); // Tipe özgü bariyer
         });
 
-        const waterRef = { x: 0.8, y: 0.2 };
-        const dWater = Math.sqrt(Math.pow(x - waterRef.x, 2) + Math.pow(y - waterRef.y, 2));
-        const waterAttraction = 0.8 * Math.exp(-dWater * 6) * seasonImpact;
+        // Su ve otlak kaynakları (nokta / nehir / sulak alan)
+        let waterAttraction = 0;
+        let waterProximity = 0;
+        active.forEach(({ res, availability }) => {
+          const proximity = Math.exp(-distanceToResource(res, { x, y }, this.projection) / this.ranges.waterKm) * availability;
+          waterAttraction += res.strength * proximity;
+          waterProximity = Math.max(waterProximity, proximity);
+        });
+        const heatStress = heat * (1 - waterProximity);
 
         // V (Enerji) = 1 - P + Engeller
         // P (Probability) yüksekse Enerji düşük olur (Vadiye akış).
         let p = (suitability * this.weights.resource) + waterAttraction + this.suitabilityBias[r][c];
-        let v = 1.0 - p + repulsion;
+        let v = 1.0 - p + repulsion + heatStress;
 
-        this.potentialField[r][c] = Math.max(0.01, Math.min(3.0, v));
+        field[r][c] = Math.max(0.01, Math.min(3.0, v));
       }
     }
+    this.potentialField = field;
     return this.potentialField;
   }
 
@@ -102,36 +228,58 @@ export class PhysicsEngine {
    * Hareketin Fiziğini Denetler
    * Lagrangian aksiyonun (L = T - V) ne kadar verimli olduğunu hesaplar.
    */
-  computePhysics(observedPath: Point[]): PhysicsMetrics {
+  computePhysics(observedPath: (Point | TimedPoint)[]): PhysicsMetrics {
     const t: number[] = []; const v: number[] = []; const l: number[] = [];
     let totalS = 0;
     let turnComplexity = 0; // Kolmogorov / Chaos göstergesi
+    const timed = observedPath.length > 0 && observedPath.every(isTimedPoint);
+
+    const segments: SegmentStats[] = [];
+    let seg: SegmentStats | null = null;
 
     for (let i = 0; i < observedPath.length; i++) {
       const p = observedPath[i];
       const prev = observedPath[i - 1] || p;
 
-      // 1. Kinetic Energy T (Biyolojik Efor)
-      const vSq = (Math.pow(p.x - prev.x, 2) + Math.pow(p.y - prev.y, 2)) * this.weights.effort;
-      const kinetic = 0.5 * vSq;
+      // 0. Zaman adımı Δt (saat). Eşikten uzun boşluk yeni segment başlatır.
+      let dt = timed ? ((p as TimedPoint).time - (prev as TimedPoint).time) / 3_600_000 : 1;
+      const newSegment = i === 0 || (timed && (dt > this.timing.maxGapH || dt <= 0));
+      if (newSegment) {
+        seg = { start: i, end: i, distanceKm: 0, durationH: 0, meanSpeedKmh: 0, dwellH: 0 };
+        segments.push(seg);
+        if (timed) dt = 0; // Boşluk boyunca sahte hız / aksiyon üretme
+      }
+
+      // 1. Kinetic Energy T (Biyolojik Efor) — hız km/saat
+      const stepKm = newSegment ? 0 : this.projection.distanceKm(p, prev);
+      const speed = dt > 0 ? stepKm / dt : 0;
+      const kinetic = 0.5 * speed * speed * this.weights.effort;
 
       // 2. Potential Energy V (Konum Maliyeti)
-      const r = Math.min(this.gridSize.rows - 1, Math.max(0, Math.floor(p.y * this.gridSize.rows)));
-      const c = Math.min(this.gridSize.cols - 1, Math.max(0, Math.floor(p.x * this.gridSize.cols)));
+      const { r, c } = this.projection.toCell(p, this.gridSize);
       const potential = this.potentialField[r][c];
 
-      // 3. Lagrangian & Action
+      // 3. Lagrangian & Action: S = Σ L·Δt
       const lagrange = kinetic - potential;
       t.push(kinetic); v.push(potential); l.push(lagrange);
-      totalS += lagrange;
+      totalS += lagrange * (timed ? dt : 1);
 
-      // 4. Anomali (Düzensizlik) Analizi
-      if (i > 1) {
-        const angle = Math.abs(Math.atan2(p.y - prev.y, p.x - prev.x) - Math.atan2(prev.y - observedPath[i-2].y, prev.x - observedPath[i-2].x));
+      seg!.end = i;
+      seg!.distanceKm += stepKm;
+      if (!newSegment) {
+        seg!.durationH += dt;
+        if (speed < this.timing.dwellSpeedKmh) seg!.dwellH += dt;
+      }
+
+      // 4. Anomali (Düzensizlik) Analizi — segment sınırını aşan dönüşler sayılmaz
+      if (i - seg!.start > 1) {
+        const angle = headingChange(observedPath[i-2], prev, p); // ±π sınırında sarılır
         if (angle > 0.5) turnComplexity += angle; // Keskin dönüşler anomali artırır
       }
     }
 
+    segments.forEach(sg => { sg.meanSpeedKmh = sg.durationH > 0 ? sg.distanceKm / sg.durationH : 0; });
+
     const entropyScore = turnComplexity / observedPath.length;
     const naturalness = Math.max(0, 100 - (entropyScore * 50) - (Math.abs(totalS) / 100));
 
@@ -139,50 +287,56 @@ export class PhysicsEngine {
       t, v, l, s: totalS, 
       entropy: entropyScore, 
       naturalness: naturalness,
-      predictiveError: entropyScore // Bu bizim Kolmogorov proxymiz
+      predictiveError: entropyScore, // Bu bizim Kolmogorov proxymiz
+      segments,
+      totalDistanceKm: segments.reduce((acc, sg) => acc + sg.distanceKm, 0),
+      dwellH: segments.reduce((acc, sg) => acc + sg.dwellH, 0)
     };
   }
 
+  /**
+   * Bir yolun least-action çözücüyle aynı ölçüdeki maliyeti: Σ V(hücre) × adım uzunluğu (hücre).
+   * Gözlenen / ideal oranı için kullanılır.
+   */
+  actionAlong(path: Point[]): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      const a = this.projection.toCell(path[i - 1], this.gridSize);
+      const b = this.projection.toCell(path[i], this.gridSize);
+      const len = Math.sqrt(Math.pow(b.r - a.r, 2) + Math.pow(b.c - a.c, 2));
+      total += this.potentialField[b.r][b.c] * len;
+    }
+    return total;
+  }
+
+  /**
+   * Gözlenen yolun her noktası için anomali skoru (ideal: least-action rotası).
+   */
+  detectAnomalies(observedPath: (Point | TimedPoint)[], idealPath: Point[], thresholds: AnomalyThresholds = this.anomalyThresholds): PointAnomaly[] {
+    return detectAnomalies(this, observedPath, idealPath, thresholds);
+  }
+
+  /**
+   * Hücre bazlı çatışma riski haritası (0-1). Güncel potentialField'ı kullanır.
+   */
+  computeRiskField(inputs: RiskInputs): RiskRaster {
+    return computeRiskRaster(this, inputs, this.riskWeights);
+  }
+
   /**
    * Least Action Path: Fiziğin öngördüğü en ideal rotayı bulur (A*)
+   * Rota yoksa boş path ve nedenini (status) döndürür.
    */
-  solveLagrangianPath(start: Point, end: Point): Point[] {
-    const startNode = { r: Math.floor(start.y * (this.gridSize.rows-1)), c: Math.floor(start.x * (this.gridSize.cols-1)) };
-    const endNode = { r: Math.floor(end.y * (this.gridSize.rows-1)), c: Math.floor(end.x * (this.gridSize.cols-1)) };
-
-    const openSet: any[] = [{ ...startNode, g: 0, h: 0, f: 0, parent: null }];
-    const closedSet = new Set<string>();
-
-    while (openSet.length > 0) {
-      openSet.sort((a, b) => a.f - b.f);
-      const current = openSet.shift();
-
-      if (current.r === endNode.r && current.c === endNode.c) {
-        const path: Point[] = [];
-        let curr = current;
-        while (curr) {
-          path.push({ x: curr.c / (this.gridSize.cols - 1), y: curr.r / (this.gridSize.rows - 1) });
-          curr = curr.parent;
-        }
-        return path.reverse();
-      }
+  solveLagrangianPath(start: Point, end: Point, options: PathOptions = {}): LagrangianPath {
+    const startNode = this.projection.toCell(start, this.gridSize);
+    const endNode = this.projection.toCell(end, this.gridSize);
 
-      const key = `${current.r},${current.c}`;
-      if (closedSet.has(key)) continue;
-      closedSet.add(key);
-
-      const neighbors = [[-1,0],[1,0],[0,-1],[0,1],[-1,-1],[-1,1],[1,-1],[1,1]];
-      for (const [dr, dc] of neighbors) {
-        const nr = current.r + dr;
-        const nc = current.c + dc;
-        if (nr >= 0 && nr < this.gridSize.rows && nc >= 0 && nc < this.gridSize.cols) {
-          const stepCost = this.potentialField[nr][nc];
-          const g = current.g + stepCost; // Lagrangian Maliyet birikimi
-          const h = Math.sqrt(Math.pow(nr - endNode.r, 2) + Math.pow(nc - endNode.c, 2)) * 0.1;
-          openSet.push({ r: nr, c: nc, g, h, f: g + h, parent: current });
-        }
-      }
-    }
-    return [start, end];
+    const result = solveGridPath(this.potentialField, this.gridSize, startNode, endNode, options);
+    return {
+      status: result.status,
+      path: result.cells.map(cell => this.projection.cellToPoint(cell, this.gridSize)),
+      action: result.action,
+      expanded: result.expanded
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Uydu matrisleri (GEE ndvi_matrix) için doğrulama, boşluk doldurma ve
+ * yeniden örnekleme. PhysicsEngine'e yalnızca temiz, grid boyutunda matris girer.
+ */
+
+export type RawMatrix = (number | null)[][];
+
+export class MatrixFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MatrixFormatError';
+  }
+}
+
+const isGap = (v: unknown) => v === null || (typeof v === 'number' && Number.isNaN(v));
+
+/**
+ * Payload'ın dikdörtgen, sayısal bir 2B dizi olduğunu denetler.
+ * null / NaN hücreler bulut boşluğu sayılır ve kabul edilir.
+ */
+export function validateMatrix(raw: unknown): RawMatrix {
+  if (!Array.isArray(raw) || raw.length < 2) {
+    throw new MatrixFormatError('ndvi_matrix must be an array with at least 2 rows');
+  }
+  const width = Array.isArray(raw[0]) ? raw[0].length : 0;
+  if (width < 2) throw new MatrixFormatError('ndvi_matrix must have at least 2 columns');
+
+  let valid = 0;
+  raw.forEach((row, r) => {
+    if (!Array.isArray(row) || row.length !== width) {
+      throw new MatrixFormatError(`ndvi_matrix row ${r} is not ${width} cells wide`);
+    }
+    row.forEach((v, c) => {
+      if (isGap(v)) return;
+      if (typeof v !== 'number' || !Number.isFinite(v)) {
+        throw new MatrixFormatError(`ndvi_matrix[${r}][${c}] is not a number`);
+      }
+      valid++;
+    });
+  });
+  if (valid === 0) throw new MatrixFormatError('ndvi_matrix contains no valid cells');
+  return raw as RawMatrix;
+}
+
+/**
+ * Bulut boşluklarını komşu (8-yön) ortalamasıyla doldurur.
+ * Büyük boşluklar kenardan içe doğru katman katman kapanır.
+ */
+export function fillGaps(matrix: RawMatrix): number[][] {
+  const rows = matrix.length; const cols = matrix[0].length;
+  let grid = matrix.map(row => row.map(v => (isGap(v) ? null : v)));
+  let remaining = grid.reduce((acc, row) => acc + row.filter(v => v === null).length, 0);
+
+  while (remaining > 0) {
+    const next = grid.map(row => [...row]);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (grid[r][c] !== null) continue;
+        let sum = 0; let n = 0;
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            const v = grid[r + dr]?.[c + dc];
+            if (v !== null && v !== undefined) { sum += v; n++; }
+          }
+        }
+        if (n > 0) { next[r][c] = sum / n; remaining--; }
+      }
+    }
+    grid = next;
+  }
+  return grid as number[][];
+}
+
+/**
+ * Bilinear yeniden örnekleme: köşe hücreler birebir korunur
+ * (generateField'daki c / (cols - 1) hizalamasıyla aynı).
+ */
+export function resampleBilinear(matrix: number[][], cols: number, rows: number): number[][] {
+  const srcRows = matrix.length; const srcCols = matrix[0].length;
+  if (srcRows === rows && srcCols === cols) return matrix.map(row => [...row]);
+
+  return Array(rows).fill(0).map((_, r) => {
+    const sy = (r / (rows - 1)) * (srcRows - 1);
+    const r0 = Math.floor(sy); const r1 = Math.min(srcRows - 1, r0 + 1); const fy = sy - r0;
+    return Array(cols).fill(0).map((_, c) => {
+      const sx = (c / (cols - 1)) * (srcCols - 1);
+      const c0 = Math.floor(sx); const c1 = Math.min(srcCols - 1, c0 + 1); const fx = sx - c0;
+      const top = matrix[r0][c0] * (1 - fx) + matrix[r0][c1] * fx;
+      const bottom = matrix[r1][c0] * (1 - fx) + matrix[r1][c1] * fx;
+      return top * (1 - fy) + bottom * fy;
+    });
+  });
+}
+
+/**
+ * Ayrılabilir Gauss yumuşatma (σ km cinsinden): önce satırlar, sonra sütunlar.
+ * cellKmX / cellKmY hücre aralıklarıdır.
+ */
+export function smoothGaussian(matrix: number[][], cellKmX: number, cellKmY: number, sigmaKm: number): number[][] {
+  const rows = matrix.length; const cols = matrix[0].length;
+  const kernel = (stepKm: number) => {
+    const radius = Math.max(1, Math.ceil((3 * sigmaKm) / stepKm));
+    return Array(2 * radius + 1).fill(0).map((_, i) => Math.exp(-0.5 * Math.pow(((i - radius) * stepKm) / sigmaKm, 2)));
+  };
+  const convolve = (get: (i: number) => number, n: number, k: number[]) => Array(n).fill(0).map((_, i) => {
+    const radius = (k.length - 1) / 2;
+    let sum = 0;
+    k.forEach((w, j) => { const idx = i + j - radius; if (idx >= 0 && idx < n) sum += w * get(idx); });
+    return sum;
+  });
+
+  const kx = kernel(cellKmX); const ky = kernel(cellKmY);
+  const horizontal = matrix.map(row => convolve(i => row[i], cols, kx));
+  const columns = Array(cols).fill(0).map((_, c) => convolve(r => horizontal[r][c], rows, ky));
+  return Array(rows).fill(0).map((_, r) => Array(cols).fill(0).map((_, c) => columns[c][r]));
+}
+
+/**
+ * Matrisi satır-öncelikli Float64Array'e paketler; worker'a kopyasız (transferable) gönderim için.
+ */
+export function packMatrix(matrix: number[][]): Float64Array {
+  const cols = matrix[0]?.length ?? 0;
+  const data = new Float64Array(matrix.length * cols);
+  matrix.forEach((row, r) => data.set(row, r * cols));
+  return data;
+}
+
+export function unpackMatrix(data: Float64Array, cols: number): number[][] {
+  return Array(data.length / cols).fill(0).map((_, r) => Array.from(data.subarray(r * cols, (r + 1) * cols)));
+}
+
+/**
+ * Backend'den gelen ham matrisi generateField'ın beklediği envMatrix'e çevirir.
+ * Bozuk payload'da MatrixFormatError fırlatır.
+ */
+export function toEnvMatrix(raw: unknown, cols: number, rows: number): number[][] {
+  return resampleBilinear(fillGaps(validateMatrix(raw)), cols, rows);
+}
@@ -0,0 +1,110 @@
+import type { GeoProjection } from './geo';
+import type { Point } from './physics';
+
+/**
+ * Kaynak modeli: su noktaları, nehirler (çoklu çizgi) ve sulak alanlar (çokgen).
+ * Motor (çekim alanı), hedef seçimi ve harita çizimi aynı listeyi kullanır.
+ */
+
+export type ResourceKind = 'point' | 'river' | 'wetland';
+
+interface ResourceBase {
+  id: string;
+  name: string;
+  strength: number;        // Çekim katsayısı (generateField'daki 0.8 ile aynı ölçek)
+  availability: number[];  // 12 ay için 0-1 erişilebilirlik (Ocak = 0)
+}
+
+export interface PointResource extends ResourceBase { kind: 'point'; at: Point }
+export interface RiverResource extends ResourceBase { kind: 'river'; path: Point[] }
+export interface WetlandResource extends ResourceBase { kind: 'wetland'; polygon: Point[] }
+
+export type Resource = PointResource | RiverResource | WetlandResource;
+
+// Hazır mevsimsel profiller
+export const AVAILABILITY_PRESETS = {
+  permanent: Array(12).fill(1),
+  wet: [0.2, 0.1, 0.1, 0.2, 0.5, 0.8, 1, 1, 1, 0.9, 0.6, 0.3],
+  dry: [1, 1, 0.9, 0.8, 0.5, 0.3, 0.2, 0.2, 0.3, 0.5, 0.8, 1],
+  // Eski waterRef'in |sin(2πm/12)| döngüsü
+  cyclic: Array(12).fill(0).map((_, i) => Math.abs(Math.sin(2 * Math.PI * (i + 1) / 12)))
+};
+
+export type AvailabilityPreset = keyof typeof AVAILABILITY_PRESETS;
+
+export const DEFAULT_RESOURCES: Resource[] = [
+  { id: 'spring-ne', kind: 'point', name: 'Upper Nile Waterpoint', strength: 0.8, availability: AVAILABILITY_PRESETS.cyclic, at: { x: 0.8, y: 0.2 } },
+  { id: 'wetland-north', kind: 'wetland', name: 'Northern Wetland', strength: 0.5, availability: AVAILABILITY_PRESETS.wet,
+    polygon: [{ x: 0.84, y: 0.06 }, { x: 0.94, y: 0.08 }, { x: 0.93, y: 0.17 }, { x: 0.83, y: 0.16 }] },
+  { id: 'wetland-sudd', kind: 'wetland', name: 'Central Sudd Basin', strength: 0.5, availability: AVAILABILITY_PRESETS.wet,
+    polygon: [{ x: 0.14, y: 0.40 }, { x: 0.25, y: 0.38 }, { x: 0.27, y: 0.50 }, { x: 0.16, y: 0.52 }] },
+  { id: 'river-white-nile', kind: 'river', name: 'White Nile Mainline', strength: 0.4, availability: AVAILABILITY_PRESETS.permanent,
+    path: sampleBezier({ x: 0.15, y: 0 }, { x: 0.3, y: 0.4 }, { x: 0.05, y: 0.6 }, { x: 0.25, y: 1 }, 24) }
+];
+
+/** Kübik Bezier'i çoklu çizgiye çevirir (harita eskiden Nil'i böyle çiziyordu). */
+export function sampleBezier(p0: Point, p1: Point, p2: Point, p3: Point, steps: number): Point[] {
+  return Array(steps + 1).fill(0).map((_, i) => {
+    const t = i / steps; const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+    };
+  });
+}
+
+/** Ay (1-12, kesirli olabilir) için erişilebilirlik; aylar arası doğrusal geçiş. */
+export function availabilityAt(res: Resource, month: number): number {
+  const m = (((month - 1) % 12) + 12) % 12;
+  const i = Math.floor(m); const f = m - i;
+  return res.availability[i] * (1 - f) + res.availability[(i + 1) % 12] * f;
+}
+
+const nearestOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x; const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]; const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/** Kaynağın p'ye en yakın noktası (çokgen içindeyse p'nin kendisi). */
+export function nearestPointOn(res: Resource, p: Point, projection: GeoProjection): Point {
+  if (res.kind === 'point') return res.at;
+  if (res.kind === 'wetland' && pointInPolygon(p, res.polygon)) return p;
+  const vertices = res.kind === 'river' ? res.path : [...res.polygon, res.polygon[0]];
+  let best = vertices[0]; let bestD = Infinity;
+  for (let i = 1; i < vertices.length; i++) {
+    const q = nearestOnSegment(p, vertices[i - 1], vertices[i]);
+    const d = projection.distanceKm(p, q);
+    if (d < bestD) { bestD = d; best = q; }
+  }
+  return best;
+}
+
+export const distanceToResource = (res: Resource, p: Point, projection: GeoProjection) =>
+  projection.distanceKm(p, nearestPointOn(res, p, projection));
+
+/**
+ * Sürü hedefi: o ay erişilebilir kaynaklar arasında (mesafe / erişilebilirlik) en küçük olanı.
+ * Hiçbiri erişilebilir değilse null.
+ */
+export function selectSink(from: Point, resources: Resource[], month: number, projection: GeoProjection, minAvailability: number = 0.15): { resource: Resource; target: Point } | null {
+  let best: { resource: Resource; target: Point } | null = null; let bestScore = Infinity;
+  resources.forEach(res => {
+    const a = availabilityAt(res, month);
+    if (a < minAvailability) return;
+    const target = nearestPointOn(res, from, projection);
+    const score = projection.distanceKm(from, target) / a;
+    if (score < bestScore) { bestScore = score; best = { resource: res, target }; }
+  });
+  return best;
+}
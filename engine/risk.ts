@@ -0,0 +1,111 @@
+import type { Cell } from './geo';
+import type { Incident } from './incidents';
+import type { PhysicsEngine, Point } from './physics';
+import { smoothGaussian } from './raster';
+
+/**
+ * Hücre bazlı çatışma riski: çatışma yakınlığı, least-action rotalarındaki sürü yoğunluğu,
+ * kaynak kıtlığı (potansiyel alan) ve anomali skorlarının ağırlıklı toplamı (0-1).
+ */
+
+export interface RiskFactors {
+  conflict: number;  // Bilinen olaylara yakınlık
+  density: number;   // Tahmini rotaların üst üste binmesi
+  scarcity: number;  // Yüksek potansiyel = kıt kaynak
+  anomaly: number;   // Düzensiz hareket
+}
+
+export type RiskFactorKey = keyof RiskFactors;
+
+export interface RiskInputs {
+  incidents: Incident[];
+  paths: Point[][];                            // Sürü başına tahmini rota
+  anomalies?: { point: Point; score: number }[]; // score 0-1
+}
+
+export interface RiskRaster {
+  risk: number[][];
+  factors: Record<RiskFactorKey, number[][]>;
+}
+
+export interface Hotspot {
+  cell: Cell;
+  point: Point;
+  risk: number;
+  contributions: RiskFactors; // Ağırlık × faktör (toplamları risk'i verir)
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskFactors = { conflict: 0.35, density: 0.3, scarcity: 0.2, anomaly: 0.15 };
+
+const grid = (rows: number, cols: number, value: number = 0) => Array(rows).fill(0).map(() => Array(cols).fill(value));
+
+export function computeRiskRaster(engine: PhysicsEngine, inputs: RiskInputs, weights: RiskFactors = DEFAULT_RISK_WEIGHTS): RiskRaster {
+  const { rows, cols } = engine.gridSize;
+  const { projection } = engine;
+  const kmX = projection.widthKm / (cols - 1);
+  const kmY = projection.heightKm / (rows - 1);
+  const cellPoint = (r: number, c: number) => projection.cellToPoint({ r, c }, engine.gridSize);
+
+  // 1. Çatışma yakınlığı: en yakın olayın üstel sönümü (bariyerden biraz daha geniş), güncel gücüyle ölçekli
+  const now = engine.fieldInputs.now;
+  const barriers = inputs.incidents.map(inc => ({ at: inc, weight: Math.min(1, engine.incidentStrength(inc, now)), rangeKm: engine.incidentRangeKm(inc) * 1.5 }));
+  const conflict = grid(rows, cols).map((row, r) => row.map((_, c) =>
+    barriers.reduce((acc, b) => Math.max(acc, b.weight * Math.exp(-projection.distanceKm(cellPoint(r, c), b.at) / b.rangeKm)), 0)));
+
+  // 2. Sürü yoğunluğu: her rota bir hücreyi en fazla bir kez sayar; ~2 sürü örtüşmesi doygunluk
+  const visits = grid(rows, cols);
+  inputs.paths.forEach(path => {
+    const seen = new Set<number>();
+    path.forEach(p => {
+      const { r, c } = projection.toCell(p, engine.gridSize);
+      if (!seen.has(r * cols + c)) { seen.add(r * cols + c); visits[r][c] += 1; }
+    });
+  });
+  // Referans: tek bir sürünün düz rotası yumuşatıldıktan sonra merkezde bıraktığı değer
+  const line = grid(rows, cols); line[Math.floor(rows / 2)].fill(1);
+  const oneHerd = smoothGaussian(line, kmX, kmY, 4)[Math.floor(rows / 2)][Math.floor(cols / 2)];
+  const density = smoothGaussian(visits, kmX, kmY, 4).map(row => row.map(v => Math.min(1, v / (2 * oneHerd))));
+
+  // 3. Kaynak kıtlığı: potansiyel alanın min-max normalizasyonu
+  const flat = engine.potentialField.flat();
+  const vMin = Math.min(...flat); const vMax = Math.max(...flat);
+  const scarcity = engine.potentialField.map(row => row.map(v => (vMax > vMin ? (v - vMin) / (vMax - vMin) : 0)));
+
+  // 4. Anomali: skorlar hücrelere bırakılıp yumuşatılır
+  const anomalyHits = grid(rows, cols);
+  (inputs.anomalies ?? []).forEach(a => {
+    const { r, c } = projection.toCell(a.point, engine.gridSize);
+    anomalyHits[r][c] = Math.max(anomalyHits[r][c], a.score);
+  });
+  const anomaly = smoothGaussian(anomalyHits, kmX, kmY, 3).map(row => row.map(v => Math.min(1, v)));
+
+  const factors = { conflict, density, scarcity, anomaly };
+  const risk = grid(rows, cols).map((row, r) => row.map((_, c) =>
+    (Object.keys(weights) as RiskFactorKey[]).reduce((acc, k) => acc + weights[k] * factors[k][r][c], 0)));
+
+  return { risk, factors };
+}
+
+/**
+ * En riskli N hücre; birbirine minSeparation hücreden yakın olanlar tek sıcak nokta sayılır.
+ */
+export function topHotspots(engine: PhysicsEngine, raster: RiskRaster, n: number = 5, minSeparation: number = 4, weights: RiskFactors = DEFAULT_RISK_WEIGHTS): Hotspot[] {
+  const cells: { r: number; c: number; risk: number }[] = [];
+  raster.risk.forEach((row, r) => row.forEach((risk, c) => cells.push({ r, c, risk })));
+  cells.sort((a, b) => b.risk - a.risk);
+
+  const picked: Hotspot[] = [];
+  for (const cell of cells) {
+    if (picked.length >= n) break;
+    if (picked.some(h => Math.max(Math.abs(h.cell.r - cell.r), Math.abs(h.cell.c - cell.c)) < minSeparation)) continue;
+    const contributions = {} as RiskFactors;
+    (Object.keys(weights) as RiskFactorKey[]).forEach(k => { contributions[k] = weights[k] * raster.factors[k][cell.r][cell.c]; });
+    picked.push({
+      cell: { r: cell.r, c: cell.c },
+      point: engine.projection.cellToPoint(cell, engine.gridSize),
+      risk: cell.risk,
+      contributions
+    });
+  }
+  return picked;
+}
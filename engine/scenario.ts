@@ -0,0 +1,188 @@
+import type { AOIBounds } from './geo';
+import { GeoProjection } from './geo';
+import { INCIDENT_SOURCES, INCIDENT_TYPES, type Incident } from './incidents';
+import { PhysicsEngine, type Climate, type Point } from './physics';
+import type { PathStatus } from './pathfinding';
+import { selectSink, type Resource } from './resources';
+import { projectClimate } from './season';
+
+/**
+ * Senaryo planlama ("ne olurdu?"): olaylar, kaynaklar, ay ve ağırlıklardan oluşan
+ * adlandırılmış alan yapılandırmaları. İki senaryo aynı sürü başlangıçlarıyla
+ * ayrı motorlarda çalıştırılır ve alan / rota farkları karşılaştırılır.
+ */
+
+export const SCENARIO_FORMAT = 'cattle-eye/scenarios';
+export const SCENARIO_VERSION = 1;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  month: number;
+  incidents: Incident[];
+  resources: Resource[];
+  weights: PhysicsEngine['weights'];
+}
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FORMAT;
+  version: number;
+  scenarios: Scenario[];
+}
+
+/** Senaryolar arasında sabit tutulan girdiler (canlı uydu verisi, öğrenilmiş bias, sürüler). */
+export interface ScenarioContext {
+  grid: { cols: number; rows: number };
+  aoiBounds: AOIBounds;
+  envMatrix: number[][] | null;
+  live: Climate;
+  liveMonth: number;
+  suitabilityBias: number[][];
+  herds: { id: number; label: string; start: Point }[];
+  now: number;
+}
+
+export interface HerdOutcome {
+  id: number;
+  label: string;
+  status: PathStatus | 'no-sink';
+  sink: string | null;    // Seçilen kaynağın adı
+  path: Point[];
+  action: number;         // Least-action rotasının S değeri
+  lengthKm: number;
+  risk: number;           // Rota boyunca ortalama hücre riski (0-1)
+}
+
+export interface ScenarioRun {
+  scenario: Scenario;
+  field: number[][];
+  risk: number[][];
+  herds: HerdOutcome[];
+}
+
+export interface HerdChange {
+  id: number;
+  label: string;
+  a: HerdOutcome;
+  b: HerdOutcome;
+  dAction: number;
+  dLengthKm: number;
+  dRisk: number;
+  rerouted: boolean;      // Hedef kaynak veya rota durumu değişti
+}
+
+export interface ScenarioDiff {
+  fieldDelta: number[][]; // b - a
+  herds: HerdChange[];
+}
+
+export class ScenarioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioFormatError';
+  }
+}
+
+export function runScenario(context: ScenarioContext, scenario: Scenario): ScenarioRun {
+  const engine = new PhysicsEngine(context.grid.cols, context.grid.rows, new GeoProjection(context.aoiBounds));
+  engine.weights = { ...scenario.weights };
+  engine.suitabilityBias = context.suitabilityBias;
+  const climate = projectClimate(context.live, context.liveMonth, scenario.month);
+  const field = engine.generateField(context.envMatrix, scenario.month, scenario.incidents, climate, scenario.resources, context.now);
+
+  const routes = context.herds.map(herd => {
+    const sink = selectSink(herd.start, scenario.resources, scenario.month, engine.projection);
+    if (!sink) return { herd, sink: null, status: 'no-sink' as const, path: [herd.start], action: 0 };
+    const route = engine.solveLagrangianPath(herd.start, sink.target);
+    return { herd, sink: sink.resource.name, status: route.status, path: route.status === 'found' ? route.path : [herd.start], action: route.action };
+  });
+
+  const { risk } = engine.computeRiskField({ incidents: scenario.incidents, paths: routes.map(r => r.path) });
+  const herds = routes.map(({ herd, sink, status, path, action }) => {
+    const cells = path.map(p => engine.projection.toCell(p, engine.gridSize));
+    return {
+      id: herd.id, label: herd.label, status, sink, path, action,
+      lengthKm: path.slice(1).reduce((acc, p, i) => acc + engine.projection.distanceKm(path[i], p), 0),
+      risk: cells.reduce((acc, { r, c }) => acc + risk[r][c], 0) / cells.length
+    };
+  });
+  return { scenario, field, risk, herds };
+}
+
+export function compareScenarios(a: ScenarioRun, b: ScenarioRun): ScenarioDiff {
+  return {
+    fieldDelta: b.field.map((row, r) => row.map((v, c) => v - a.field[r][c])),
+    herds: a.herds.flatMap(ha => {
+      const hb = b.herds.find(h => h.id === ha.id);
+      if (!hb) return [];
+      return [{
+        id: ha.id, label: ha.label, a: ha, b: hb,
+        dAction: hb.action - ha.action,
+        dLengthKm: hb.lengthKm - ha.lengthKm,
+        dRisk: hb.risk - ha.risk,
+        rerouted: ha.sink !== hb.sink || ha.status !== hb.status
+      }];
+    })
+  };
+}
+
+export function serializeScenarios(scenarios: Scenario[]): string {
+  const file: ScenarioFile = { format: SCENARIO_FORMAT, version: SCENARIO_VERSION, scenarios };
+  return JSON.stringify(file, null, 2);
+}
+
+const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+const isPoint = (p: any) => isNum(p?.x) && isNum(p?.y);
+const isPointList = (list: any, min: number) => Array.isArray(list) && list.length >= min && list.every(isPoint);
+
+/** Olay sözleşmesi: bilinen tür ve kaynak, sonlu sayılar. Hata mesajı için sorunu döndürür. */
+function incidentProblem(inc: any): string | null {
+  if (!isPoint(inc) || !isNum(inc.severity) || !isNum(inc.time)) return 'needs x, y, severity and time';
+  if (!INCIDENT_TYPES.includes(inc.type)) return `unknown type "${inc.type}"`;
+  if (!INCIDENT_SOURCES.includes(inc.source)) return `unknown source "${inc.source}"`;
+  if (!isNum(inc.halfLifeH)) return 'halfLifeH must be a finite number';
+  return null;
+}
+
+/** Kaynak sözleşmesi: türüne uygun geometri (nokta / çoklu çizgi / çokgen) ve 12 aylık erişilebilirlik. */
+function resourceProblem(res: any): string | null {
+  if (!Array.isArray(res?.availability) || res.availability.length !== 12 || !res.availability.every(isNum)) return 'availability must have 12 numbers';
+  if (!isNum(res.strength)) return 'strength must be a finite number';
+  switch (res.kind) {
+    case 'point': return isPoint(res.at) ? null : 'point needs "at"';
+    case 'river': return isPointList(res.path, 2) ? null : 'river needs a "path" of at least 2 points';
+    case 'wetland': return isPointList(res.polygon, 3) ? null : 'wetland needs a "polygon" of at least 3 points';
+    default: return `unknown kind "${res.kind}"`;
+  }
+}
+
+function checkScenario(raw: any, i: number): Scenario {
+  const where = `Scenario ${i + 1}`;
+  if (typeof raw?.name !== 'string' || typeof raw.id !== 'string') throw new ScenarioFormatError(`${where} needs an id and a name`);
+  if (!Number.isInteger(raw.month) || raw.month < 1 || raw.month > 12) throw new ScenarioFormatError(`${where}: month must be 1-12`);
+  if (!Array.isArray(raw.incidents)) throw new ScenarioFormatError(`${where}: incidents are missing`);
+  raw.incidents.forEach((inc: any, j: number) => {
+    const problem = incidentProblem(inc);
+    if (problem) throw new ScenarioFormatError(`${where}: incident ${j + 1}: ${problem}`);
+  });
+  if (!Array.isArray(raw.resources)) throw new ScenarioFormatError(`${where}: resources are missing`);
+  raw.resources.forEach((res: any, j: number) => {
+    const problem = resourceProblem(res);
+    if (problem) throw new ScenarioFormatError(`${where}: resource ${j + 1}: ${problem}`);
+  });
+  for (const key of ['resource', 'safety', 'effort', 'uncertainty']) {
+    if (!isNum(raw.weights?.[key])) throw new ScenarioFormatError(`${where}: weight "${key}" is missing`);
+  }
+  return raw as Scenario;
+}
+
+export function parseScenarios(json: string): Scenario[] {
+  let raw: any;
+  try { raw = JSON.parse(json); } catch { throw new ScenarioFormatError('Scenario file is not valid JSON'); }
+  if (raw?.format !== SCENARIO_FORMAT) throw new ScenarioFormatError('Not a Cattle-Eye scenario file');
+  if (typeof raw.version !== 'number' || raw.version > SCENARIO_VERSION) throw new ScenarioFormatError(`Unsupported scenario version ${raw.version}`);
+  if (!Array.isArray(raw.scenarios)) throw new ScenarioFormatError('Scenario file has no scenarios');
+  return raw.scenarios.map(checkScenario);
+}
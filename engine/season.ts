@@ -0,0 +1,34 @@
+import type { Climate } from './physics';
+
+/**
+ * Jonglei / Bor için aylık klimatoloji (MODIS NDVI ve LST uzun dönem ortalamalarına yakın).
+ * Kurak mevsim Aralık-Nisan, yağışlı mevsim Mayıs-Ekim.
+ */
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const NDVI_CLIMATOLOGY = [0.26, 0.22, 0.20, 0.24, 0.32, 0.42, 0.50, 0.55, 0.55, 0.48, 0.38, 0.30];
+const LST_CLIMATOLOGY = [38.5, 40.0, 41.5, 40.5, 37.0, 34.0, 32.0, 31.0, 31.5, 33.5, 36.0, 37.5];
+
+export type SeasonPhase = 'dry' | 'wet';
+
+export const seasonPhase = (month: number): SeasonPhase => (month >= 5 && month <= 10 ? 'wet' : 'dry');
+
+export const climatology = (month: number): Climate => {
+  const i = ((Math.round(month) - 1) % 12 + 12) % 12;
+  return { ndvi: NDVI_CLIMATOLOGY[i], lst: LST_CLIMATOLOGY[i] };
+};
+
+/**
+ * Hedef ay için iklim: canlı ölçümün klimatolojiden sapması (anomali) korunarak
+ * hedef ayın ortalamasına eklenir.
+ */
+export function projectClimate(live: Climate, liveMonth: number, targetMonth: number): Climate {
+  const base = climatology(liveMonth);
+  const target = climatology(targetMonth);
+  return {
+    ndvi: Math.min(1, Math.max(0, target.ndvi + (live.ndvi - base.ndvi))),
+    lst: target.lst + (live.lst - base.lst),
+    ndviRef: live.ndvi
+  };
+}
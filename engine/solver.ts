@@ -0,0 +1,219 @@
+import {
+  DEFAULT_CALIBRATION_ITERATIONS, calibrationSteps, type CalibrationOptions, type CalibrationReport, type CalibrationStep
+} from './calibration';
+import { sampleMember, summarizeEnsemble, type EnsembleOptions, type EnsembleResult, type MemberRoute } from './ensemble';
+import type { AOIBounds } from './geo';
+import { GeoProjection } from './geo';
+import type { Incident } from './incidents';
+import { PhysicsEngine, type Climate, type LagrangianPath, type PhysicsMetrics, type Point, type TimedPoint } from './physics';
+import { createRng } from './random';
+import { packMatrix, unpackMatrix } from './raster';
+import { selectSink, type Resource } from './resources';
+import { compareScenarios, runScenario, type Scenario, type ScenarioContext, type ScenarioDiff, type ScenarioRun } from './scenario';
+
+/**
+ * Worker içinde koşan çözücü: potansiyel alanı, sürü başına least-action rotası ve
+ * fizik metrikleri; istenirse ardından Monte Carlo topluluğu. Senaryo karşılaştırmaları ve
+ * IRL kalibrasyonu da aynı worker protokolüyle koşar. Matrisler Float64Array olarak (transferable)
+ * taşınır, sonuçlar her sürü bittikçe ayrı mesajla akıtılır.
+ */
+
+export interface HerdRequest {
+  id: number;
+  label: string;
+  source: 'track' | 'synthetic';
+  start: Point;
+  observed: TimedPoint[] | null; // null = sentetik gözlem (ideal rota + gürültü)
+}
+
+export interface HerdSolution {
+  id: number;
+  label: string;
+  source: 'track' | 'synthetic';
+  ideal: Point[];
+  observed: (Point | TimedPoint)[];
+  stats: PhysicsMetrics;
+  route: LagrangianPath | null;  // Erişilebilir kaynak yoksa null
+}
+
+export interface SolveRequest {
+  requestId: number;
+  grid: { cols: number; rows: number };
+  aoiBounds: AOIBounds;
+  weights: PhysicsEngine['weights'];
+  bias: Float64Array;               // suitabilityBias, satır-öncelikli
+  envMatrix: Float64Array | null;
+  month: number;
+  incidents: Incident[];
+  climate: Climate;
+  resources: Resource[];
+  now: number;
+  herds: HerdRequest[];
+  ensemble: EnsembleOptions | null; // null = yalnızca deterministik rotalar
+}
+
+/** İki senaryonun karşılaştırması; bağlamın matrisleri solve'daki gibi paketlenir. */
+export interface CompareRequest {
+  requestId: number;
+  context: Omit<ScenarioContext, 'envMatrix' | 'suitabilityBias'>;
+  bias: Float64Array;
+  envMatrix: Float64Array | null;
+  scenarios: [Scenario, Scenario];
+}
+
+export interface ScenarioComparison {
+  a: ScenarioRun;
+  b: ScenarioRun;
+  diff: ScenarioDiff;
+}
+
+/** İçe aktarılan izlerden bias öğrenimi + ağırlık kalibrasyonu; alan girdileri solve'daki gibidir. */
+export interface CalibrateRequest extends Omit<SolveRequest, 'herds' | 'ensemble'> {
+  paths: TimedPoint[][];
+  options: CalibrationOptions;
+}
+
+export type WorkerRequest =
+  | { type: 'solve'; request: SolveRequest }
+  | { type: 'compare'; request: CompareRequest }
+  | { type: 'calibrate'; request: CalibrateRequest }
+  | { type: 'cancel'; requestId: number };
+
+export type SolverMessage =
+  | { type: 'field'; requestId: number; field: Float64Array }
+  | { type: 'herd'; requestId: number; index: number; total: number; herd: HerdSolution }
+  | { type: 'ensemble'; requestId: number; result: EnsembleResult }
+  | { type: 'comparison'; requestId: number; comparison: ScenarioComparison }
+  | { type: 'calibration-step'; requestId: number; step: CalibrationStep; iterations: number }
+  | { type: 'calibration'; requestId: number; report: CalibrationReport; bias: Float64Array }
+  | { type: 'done'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+/** İsteğin sahipliği worker'a devredilen tamponları. */
+export const requestTransferables = (request: SolveRequest | CompareRequest | CalibrateRequest): ArrayBuffer[] =>
+  [request.bias, request.envMatrix].flatMap(m => (m ? [m.buffer as ArrayBuffer] : []));
+
+export function buildEngine(request: Pick<SolveRequest, 'grid' | 'aoiBounds' | 'weights' | 'bias'>): PhysicsEngine {
+  const { cols, rows } = request.grid;
+  const engine = new PhysicsEngine(cols, rows, new GeoProjection(request.aoiBounds));
+  engine.weights = { ...request.weights };
+  engine.suitabilityBias = unpackMatrix(request.bias, cols);
+  return engine;
+}
+
+/** Sürüyü en yakın erişilebilir kaynağa yönlendirir; gözlem yoksa gürültülü sentetik iz üretir. */
+export function solveHerd(engine: PhysicsEngine, herd: HerdRequest, resources: Resource[], month: number): HerdSolution {
+  const sink = selectSink(herd.start, resources, month, engine.projection);
+  const route = sink ? engine.solveLagrangianPath(herd.start, sink.target) : null;
+  // Rota bulunamazsa sürü kampında sabit kalır; sahte bir çizgi çizilmez
+  const ideal = route?.status === 'found' ? route.path : [herd.start];
+  const observed = herd.observed ?? ideal.map(p => ({
+    x: p.x + (Math.random() - 0.5) * 0.045,
+    y: p.y + (Math.random() - 0.5) * 0.045
+  }));
+  return { id: herd.id, label: herd.label, source: herd.source, ideal, observed, stats: engine.computePhysics(observed), route };
+}
+
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * İsteği adım adım çözer: önce alan, sonra her sürü için bir mesaj, en son topluluk.
+ * Her sürüden ve topluluk üyesinden önce olay döngüsüne dönülür; bu arada yeni bir
+ * istek geldiyse (isStale) çözüm yarıda bırakılır.
+ */
+export async function runSolve(
+  request: SolveRequest,
+  post: (message: SolverMessage, transfer?: ArrayBuffer[]) => void,
+  isStale: () => boolean
+): Promise<void> {
+  const { requestId, herds } = request;
+  try {
+    const engine = buildEngine(request);
+    const env = request.envMatrix && unpackMatrix(request.envMatrix, request.grid.cols);
+    const field = packMatrix(engine.generateField(env, request.month, request.incidents, request.climate, request.resources, request.now));
+    post({ type: 'field', requestId, field }, [field.buffer as ArrayBuffer]);
+
+    for (let index = 0; index < herds.length; index++) {
+      await nextTask();
+      if (isStale()) return;
+      post({ type: 'herd', requestId, index, total: herds.length, herd: solveHerd(engine, herds[index], request.resources, request.month) });
+    }
+
+    if (request.ensemble) {
+      const starts = herds.map(({ id, label, start }) => ({ id, label, start }));
+      const rng = createRng(request.ensemble.seed);
+      const members: MemberRoute[][] = [];
+      for (let i = 0; i < request.ensemble.members; i++) {
+        await nextTask();
+        if (isStale()) return;
+        members.push(sampleMember(engine, engine.fieldInputs, starts, rng, request.ensemble));
+      }
+      post({ type: 'ensemble', requestId, result: summarizeEnsemble(engine.projection, request.grid, starts, members, request.ensemble) });
+    }
+    post({ type: 'done', requestId });
+  } catch (e) {
+    post({ type: 'error', requestId, message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+/**
+ * Bias'ı izlerden öğrenir, sonra ağırlıkları tur tur kalibre eder. Her turdan sonra ilerleme
+ * mesajı gönderilir ve olay döngüsüne dönülür; bayat istek yarıda bırakılır. Sonuçta öğrenilen
+ * bias paketlenmiş olarak döner, ana motor ağırlıkları ve bias'ı kendisi uygular.
+ */
+export async function runCalibrate(
+  request: CalibrateRequest,
+  post: (message: SolverMessage, transfer?: ArrayBuffer[]) => void,
+  isStale: () => boolean
+): Promise<void> {
+  const { requestId } = request;
+  const iterations = request.options.iterations ?? DEFAULT_CALIBRATION_ITERATIONS;
+  try {
+    const engine = buildEngine(request);
+    const env = request.envMatrix && unpackMatrix(request.envMatrix, request.grid.cols);
+    engine.generateField(env, request.month, request.incidents, request.climate, request.resources, request.now);
+    engine.learnBias(request.paths);
+
+    const run = calibrationSteps(engine, request.paths, request.options);
+    for (;;) {
+      await nextTask();
+      if (isStale()) return;
+      const next = run.next();
+      if (next.done) {
+        const bias = packMatrix(engine.suitabilityBias);
+        post({ type: 'calibration', requestId, report: next.value, bias }, [bias.buffer as ArrayBuffer]);
+        break;
+      }
+      post({ type: 'calibration-step', requestId, step: next.value, iterations });
+    }
+    post({ type: 'done', requestId });
+  } catch (e) {
+    post({ type: 'error', requestId, message: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+/** İki senaryoyu sırayla koşar; her senaryodan önce olay döngüsüne dönülür ve bayat istek bırakılır. */
+export async function runCompare(
+  request: CompareRequest,
+  post: (message: SolverMessage) => void,
+  isStale: () => boolean
+): Promise<void> {
+  const { requestId, context: { grid } } = request;
+  try {
+    const context: ScenarioContext = {
+      ...request.context,
+      suitabilityBias: unpackMatrix(request.bias, grid.cols),
+      envMatrix: request.envMatrix && unpackMatrix(request.envMatrix, grid.cols)
+    };
+    const runs: ScenarioRun[] = [];
+    for (const scenario of request.scenarios) {
+      await nextTask();
+      if (isStale()) return;
+      runs.push(runScenario(context, scenario));
+    }
+    post({ type: 'comparison', requestId, comparison: { a: runs[0], b: runs[1], diff: compareScenarios(runs[0], runs[1]) } });
+    post({ type: 'done', requestId });
+  } catch (e) {
+    post({ type: 'error', requestId, message: e instanceof Error ? e.message : String(e) });
+  }
+}
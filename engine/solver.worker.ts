@@ -0,0 +1,23 @@
+import { runCalibrate, runCompare, runSolve, type SolverMessage, type WorkerRequest } from './solver';
+
+/**
+ * PhysicsEngine worker'ı. Yalnızca son istek canlıdır: yeni bir 'solve' / 'compare' / 'calibrate'
+ * ya da 'cancel' mesajı, sürmekte olan işi bir sonraki sürüde (senaryoda, turda) durdurur.
+ */
+
+let current: number | null = null;
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    if (current === message.requestId) current = null;
+    return;
+  }
+  const { requestId } = message.request;
+  current = requestId;
+  const isStale = () => current !== requestId;
+  const post = (reply: SolverMessage, transfer: ArrayBuffer[] = []) => postMessage(reply, { transfer });
+  if (message.type === 'compare') runCompare(message.request, post, isStale);
+  else if (message.type === 'calibrate') runCalibrate(message.request, post, isStale);
+  else runSolve(message.request, post, isStale);
+};
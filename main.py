@@ -50,6 +50,8 @@ def get_real_location_proxy():
         y = 1.0 - ((loc["lat"] - lat_min) / (lat_max - lat_min))
         
         transformed_points.append({
+            "lat": loc["lat"],
+            "lon": loc["lon"],
             "x": round(x, 4), 
             "y": round(y, 4), 
             "intensity": 350.5 # NASA VIIRS parlaklık birimi
@@ -93,14 +95,15 @@ def get_cattle_telemetry():
     satellite_matrix = get_satellite_matrix()
     
     # Uydudaki Isıdan Tespit Edilen Gerçek Kamp Koordinatları
-    real_cattle_herds = get_location_proxy()
+    real_cattle_herds = get_real_location_proxy()
     
     return {
         "ndvi_matrix": satellite_matrix,    # Dashboard zemini
         "conflicts": real_cattle_herds,     # Kırmızı yanıp sönen sığırlar
         "current_ndvi": 0.44,              # Bölge ortalaması
         "current_temp": 37.8,              # Bor Bölgesi Sıcaklık Proksisi
-        "location_id": "South_Sudan_Bor_Sector"
+        "location_id": "South_Sudan_Bor_Sector",
+        "aoi_bounds": AOI_BOUNDS             # [LonMin, LatMin, LonMax, LatMax]
     }
 
 if __name__ == "__main__":
@@ -0,0 +1,25 @@
+import { createServer } from 'node:http';
+import { UPDATE_PATH } from './services/apiClient';
+import { mockResponse, type MockScenario } from './services/mockApi';
+
+/**
+ * main.py yerine geçen yerel sahte backend (GEE / FIRMS gerekmez).
+ *   npx tsx mockServer.ts [port] [scenario]
+ * Senaryolar: default, legacy, cloudy, malformed, server-error
+ */
+
+const port = Number(process.argv[2] ?? 8000);
+const scenario = (process.argv[3] ?? 'default') as MockScenario;
+let tick = 0;
+
+createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*'); // main.py'deki CORS ayarıyla aynı
+  if (req.method === 'GET' && req.url?.split('?')[0] === UPDATE_PATH) {
+    const { status, body } = mockResponse(tick++, scenario);
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(body);
+    return;
+  }
+  res.writeHead(404).end();
+}).listen(port, '127.0.0.1', () => {
+  console.log(`CATTLE-EYE mock backend (${scenario}) on http://127.0.0.1:${port}${UPDATE_PATH}`);
+});
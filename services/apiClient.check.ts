@@ -0,0 +1,62 @@
+import { ApiHttpError, ApiNetworkError, ApiSchemaError, fetchUpdate, parseUpdatePayload } from './apiClient';
+import { MOCK_BASE_URL, createMockFetch, mockPayload, type MockScenario } from './mockApi';
+
+/**
+ * mockApi fixture'larıyla istemci sözleşmesi denetimi: her senaryo fetchUpdate'ten
+ * beklenen yükü ya da hata sınıfını üretmeli, parseUpdatePayload bozuk alanları reddetmeli.
+ *   npx tsx services/apiClient.check.ts
+ */
+
+const expectError = async (label: string, errorClass: new (...args: never[]) => Error, run: () => unknown) => {
+  try {
+    await run();
+  } catch (e) {
+    if (e instanceof errorClass) return e;
+    throw new Error(`${label}: expected ${errorClass.name}, got ${e instanceof Error ? e.name : String(e)}`);
+  }
+  throw new Error(`${label}: expected ${errorClass.name}, nothing was thrown`);
+};
+
+// Anahtar sırasından bağımsız karşılaştırma (parseConflict alanları kendi sırasıyla yeniden kurar)
+const canonical = (value: unknown): string => JSON.stringify(value, (_, v) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v);
+
+const fetchScenario = (scenario: MockScenario) =>
+  fetchUpdate({ baseUrl: MOCK_BASE_URL, fetch: createMockFetch({ scenario, latencyMs: 0 }) });
+
+async function main() {
+  // Başarılı senaryolar: yük fixture'ın birebir aynısı olmalı
+  for (const scenario of ['default', 'legacy', 'cloudy'] as const) {
+    const { payload, bytes } = await fetchScenario(scenario);
+    if (canonical(payload) !== canonical(mockPayload(0, scenario))) throw new Error(`${scenario}: payload differs from fixture`);
+    if (!(bytes > 0)) throw new Error(`${scenario}: response size not reported`);
+    console.log(`${scenario}: ok, ${payload.ndvi_matrix.length}×${payload.ndvi_matrix[0].length}, ${payload.conflicts.length} conflicts, ${bytes} B`);
+  }
+  if ((await fetchScenario('legacy')).payload.aoi_bounds !== undefined) throw new Error('legacy: aoi_bounds should be absent');
+  if (!(await fetchScenario('cloudy')).payload.ndvi_matrix.some(row => row.includes(null))) throw new Error('cloudy: masked cells were dropped');
+
+  await expectError('malformed', ApiSchemaError, () => fetchScenario('malformed'));
+  const http = await expectError('server-error', ApiHttpError, () => fetchScenario('server-error'));
+  if ((http as ApiHttpError).status !== 503) throw new Error(`server-error: expected status 503, got ${(http as ApiHttpError).status}`);
+  await expectError('unreachable', ApiNetworkError, () =>
+    fetchUpdate({ baseUrl: MOCK_BASE_URL, fetch: (() => Promise.reject(new TypeError('Failed to fetch'))) as typeof fetch }));
+  console.log('malformed / server-error / unreachable: ok');
+
+  // parseUpdatePayload: fixture'dan türetilen bozuk yükler
+  const valid = mockPayload(0);
+  const broken: [string, unknown][] = [
+    ['not an object', 'payload'],
+    ['missing conflicts', { ...valid, conflicts: undefined }],
+    ['conflict without position', { ...valid, conflicts: [{ intensity: 300 }] }],
+    ['non-numeric ndvi', { ...valid, current_ndvi: '0.4' }],
+    ['short aoi_bounds', { ...valid, aoi_bounds: [31.4, 6.0, 31.7] }],
+    ['ragged matrix', { ...valid, ndvi_matrix: [[0.1, 0.2], [0.3]] }]
+  ];
+  for (const [label, raw] of broken) await expectError(label, ApiSchemaError, () => parseUpdatePayload(raw));
+  if (canonical(parseUpdatePayload(JSON.parse(JSON.stringify(valid)))) !== canonical(valid)) throw new Error('Valid fixture did not round-trip');
+  console.log(`parseUpdatePayload: ${broken.length} malformed payloads rejected`);
+}
+
+main()
+  .then(() => console.log('api client check passed'))
+  .catch(err => { console.error(err); process.exit(1); });
@@ -0,0 +1,148 @@
+import type { AOIBounds } from '../engine/geo';
+import { validateMatrix, type RawMatrix } from '../engine/raster';
+
+/**
+ * `/api/v1/update` sözleşmesi için tipli istemci. Yanıt çalışma zamanında doğrulanır;
+ * böylece bozuk bir payload state'e yarım yamalak uygulanmaz.
+ */
+
+export interface ConflictReport {
+  x: number;               // Backend'in önceden izdüşürdüğü 0-1 koordinat
+  y: number;
+  lat?: number;
+  lon?: number;
+  intensity?: number;      // FIRMS / VIIRS parlaklık sıcaklığı (K)
+}
+
+export interface UpdatePayload {
+  ndvi_matrix: RawMatrix;
+  conflicts: ConflictReport[];
+  current_ndvi: number;
+  current_temp?: number;
+  location_id?: string;
+  aoi_bounds?: AOIBounds;  // Eski backend'ler göndermez
+}
+
+export interface UpdateResponse {
+  payload: UpdatePayload;
+  bytes: number;           // Yanıt gövdesi (UTF-8 bayt)
+}
+
+export const DEFAULT_API_BASE_URL = 'http://localhost:8000';
+export const UPDATE_PATH = '/api/v1/update';
+
+const BASE_URL_KEY = 'cattle-eye.api-base-url';
+
+export class ApiNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+export class ApiHttpError extends Error {
+  status: number;
+  constructor(status: number) {
+    super(`Backend responded ${status}`);
+    this.name = 'ApiHttpError';
+    this.status = status;
+  }
+}
+
+export class ApiSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiSchemaError';
+  }
+}
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const optional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || v === null || check(v);
+
+function parseConflict(raw: any, i: number): ConflictReport {
+  if (typeof raw !== 'object' || raw === null) throw new ApiSchemaError(`conflicts[${i}] is not an object`);
+  const hasLatLon = isNum(raw.lat) && isNum(raw.lon);
+  if (!(isNum(raw.x) && isNum(raw.y)) && !hasLatLon) throw new ApiSchemaError(`conflicts[${i}] needs x/y or lat/lon`);
+  if (!optional(raw.intensity, isNum)) throw new ApiSchemaError(`conflicts[${i}].intensity is not a number`);
+  return {
+    x: isNum(raw.x) ? raw.x : NaN, y: isNum(raw.y) ? raw.y : NaN,
+    ...(hasLatLon ? { lat: raw.lat, lon: raw.lon } : {}),
+    ...(isNum(raw.intensity) ? { intensity: raw.intensity } : {})
+  };
+}
+
+/** Ham JSON'u sözleşmeye göre doğrular; hata mesajı ilk bozuk alanı adlandırır. */
+export function parseUpdatePayload(raw: unknown): UpdatePayload {
+  if (typeof raw !== 'object' || raw === null) throw new ApiSchemaError('Payload is not a JSON object');
+  const data = raw as Record<string, any>;
+
+  let ndvi_matrix: RawMatrix;
+  try { ndvi_matrix = validateMatrix(data.ndvi_matrix); } catch (e) { throw new ApiSchemaError(e instanceof Error ? e.message : String(e)); }
+  if (!Array.isArray(data.conflicts)) throw new ApiSchemaError('Payload is missing conflicts');
+  if (!isNum(data.current_ndvi)) throw new ApiSchemaError('current_ndvi is not a number');
+  if (!optional(data.current_temp, isNum)) throw new ApiSchemaError('current_temp is not a number');
+  if (!optional(data.location_id, v => typeof v === 'string')) throw new ApiSchemaError('location_id is not a string');
+  const bounds = data.aoi_bounds;
+  if (!optional(bounds, v => Array.isArray(v) && v.length === 4 && v.every(isNum) && v[0] < v[2] && v[1] < v[3])) {
+    throw new ApiSchemaError('aoi_bounds must be [lonMin, latMin, lonMax, latMax]');
+  }
+
+  return {
+    ndvi_matrix,
+    conflicts: data.conflicts.map(parseConflict),
+    current_ndvi: data.current_ndvi,
+    ...(isNum(data.current_temp) ? { current_temp: data.current_temp } : {}),
+    ...(typeof data.location_id === 'string' ? { location_id: data.location_id } : {}),
+    ...(Array.isArray(bounds) ? { aoi_bounds: bounds as AOIBounds } : {})
+  };
+}
+
+export const loadApiBaseUrl = () => {
+  try {
+    return localStorage.getItem(BASE_URL_KEY) || DEFAULT_API_BASE_URL;
+  } catch {
+    return DEFAULT_API_BASE_URL;
+  }
+};
+
+export const saveApiBaseUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  try {
+    if (!trimmed || trimmed === DEFAULT_API_BASE_URL) localStorage.removeItem(BASE_URL_KEY);
+    else localStorage.setItem(BASE_URL_KEY, trimmed);
+  } catch (e) {
+    // Private mode / quota: the URL still applies for this session
+    console.warn('API base URL could not be persisted', e);
+  }
+  return trimmed || DEFAULT_API_BASE_URL;
+};
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;    // Test / mock için (bkz. mockApi.ts)
+  signal?: AbortSignal;
+}
+
+/**
+ * Güncel uydu paketini çeker. Ağa ulaşılamazsa ApiNetworkError, HTTP hatasında
+ * ApiHttpError, sözleşme ihlalinde ApiSchemaError fırlatır.
+ */
+export async function fetchUpdate(options: ApiClientOptions = {}): Promise<UpdateResponse> {
+  const { baseUrl = loadApiBaseUrl(), fetch: doFetch = fetch, signal } = options;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) throw new ApiNetworkError('Browser is offline');
+
+  let text: string;
+  let response: Response;
+  try {
+    response = await doFetch(`${baseUrl.replace(/\/+$/, '')}${UPDATE_PATH}`, { signal });
+    text = await response.text();
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') throw e;
+    throw new ApiNetworkError(`${baseUrl} unreachable${e instanceof Error ? `: ${e.message}` : ''}`);
+  }
+  if (!response.ok) throw new ApiHttpError(response.status);
+
+  let json: unknown;
+  try { json = JSON.parse(text); } catch { throw new ApiSchemaError('Response is not valid JSON'); }
+  return { payload: parseUpdatePayload(json), bytes: new TextEncoder().encode(text).length };
+}
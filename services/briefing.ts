@@ -0,0 +1,179 @@
+import type { EncounterEvent } from '../engine/agents';
+import type { Alert } from '../engine/anomaly';
+import { formatLatLon, type LatLon } from '../engine/geo';
+import type { PathStatus } from '../engine/pathfinding';
+import type { PhysicsMetrics } from '../engine/physics';
+import type { RiskFactorKey, RiskFactors } from '../engine/risk';
+import { MONTH_LABELS } from '../engine/season';
+
+/**
+ * Şablon tabanlı durum raporu (situation report). Tamamen çevrimdışı çalışır;
+ * getAlgorithmAnalysis arkasındaki varsayılan backend budur.
+ */
+
+export interface HerdAnalysisInput {
+  id: number;
+  label: string;
+  source: 'track' | 'synthetic';
+  metrics: PhysicsMetrics;
+  routeStatus: PathStatus | null;  // null: o ay erişilebilir kaynak yok
+  observedAction: number;          // Gözlenen yolun Σ V·ds değeri
+  idealAction: number;             // Least-action rotasının aynı ölçüdeki değeri
+}
+
+export interface HotspotInput {
+  location: LatLon;
+  risk: number;                    // 0-1
+  contributions: RiskFactors;
+}
+
+export interface AnalysisInput {
+  month: number;
+  climate: { ndvi: number; lst: number };
+  globalRisk: number;              // Bölgesel Risk Endeksi (0-100)
+  herds: HerdAnalysisInput[];
+  alerts: Alert[];
+  hotspots: HotspotInput[];
+  encounters: EncounterEvent[];
+}
+
+export type RiskLevel = 'low' | 'elevated' | 'high';
+export type HerdStatus = 'nominal' | 'watch' | 'critical' | 'stalled';
+
+export interface HerdReport {
+  id: number;
+  label: string;
+  status: HerdStatus;
+  actionRatio: number | null;      // Gözlenen / least-action (1 = ideal)
+  naturalness: number;
+  distanceKm: number;
+  openAlerts: number;
+  note: string;
+}
+
+export interface ReportTrend {
+  since: string;                   // Referans raporun generatedAt değeri
+  riskDelta: number;
+  actionRatioDelta: number | null;
+  openAlertsDelta: number;
+  statusChanges: { label: string; from: HerdStatus; to: HerdStatus }[];
+  summary: string;
+}
+
+export interface SituationReport {
+  generatedAt: string;
+  backend: string;
+  month: number;
+  riskLevel: RiskLevel;
+  globalRisk: number;
+  headline: string;
+  summary: string;
+  meanActionRatio: number | null;
+  openAlerts: number;
+  herds: HerdReport[];
+  hotspots: string[];
+  trend: ReportTrend | null;       // Son senkronizasyondan bu yana (referans yoksa null)
+}
+
+const STATUS_RANK: Record<HerdStatus, number> = { nominal: 0, watch: 1, stalled: 2, critical: 3 };
+
+const FACTOR_LABELS: Record<RiskFactorKey, string> = {
+  conflict: 'incident proximity', density: 'route overlap', scarcity: 'resource scarcity', anomaly: 'erratic movement'
+};
+
+export const riskLevelOf = (globalRisk: number): RiskLevel => (globalRisk >= 60 ? 'high' : globalRisk >= 40 ? 'elevated' : 'low');
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+function assessHerd(herd: HerdAnalysisInput, alerts: Alert[]): HerdReport {
+  const open = alerts.filter(a => a.herdId === herd.id && a.status === 'open');
+  const ratio = herd.idealAction > 0 && herd.routeStatus === 'found' ? herd.observedAction / herd.idealAction : null;
+  const base = {
+    id: herd.id, label: herd.label, actionRatio: ratio, naturalness: herd.metrics.naturalness,
+    distanceKm: herd.metrics.totalDistanceKm, openAlerts: open.length
+  };
+
+  if (herd.routeStatus !== 'found') {
+    const why = herd.routeStatus === null ? 'no water source is available this month' : `no admissible route (${herd.routeStatus})`;
+    return { ...base, status: 'stalled', note: `Anchored at camp: ${why}.` };
+  }
+  if (open.some(a => a.severity === 'high') || (ratio !== null && ratio > 2)) {
+    const worst = open.reduce<Alert | null>((w, a) => (w === null || a.score > w.score ? a : w), null);
+    const detail = worst ? `${worst.severity} ${worst.reason} alert (score ${worst.score.toFixed(1)})` : `action ${ratio!.toFixed(2)}× the least-action route`;
+    return { ...base, status: 'critical', note: `Strong departure from predicted movement: ${detail}.` };
+  }
+  if (open.length > 0 || (ratio !== null && ratio > 1.4) || herd.metrics.naturalness < 50) {
+    return { ...base, status: 'watch', note: open.length > 0 ? `${plural(open.length, 'open alert')} under review.` : 'Moving less efficiently than the least-action route.' };
+  }
+  return { ...base, status: 'nominal', note: 'Tracking the least-action corridor.' };
+}
+
+function describeHotspot(h: HotspotInput, i: number): string {
+  const dominant = (Object.keys(h.contributions) as RiskFactorKey[]).reduce((a, b) => (h.contributions[b] > h.contributions[a] ? b : a));
+  return `#${i + 1} ${formatLatLon(h.location, 2)} · ${(h.risk * 100).toFixed(0)}% (${FACTOR_LABELS[dominant]})`;
+}
+
+function compareWith(report: Omit<SituationReport, 'trend'>, baseline: SituationReport): ReportTrend {
+  const riskDelta = report.globalRisk - baseline.globalRisk;
+  const actionRatioDelta = report.meanActionRatio !== null && baseline.meanActionRatio !== null ? report.meanActionRatio - baseline.meanActionRatio : null;
+  const openAlertsDelta = report.openAlerts - baseline.openAlerts;
+  const statusChanges = report.herds.flatMap(h => {
+    const prev = baseline.herds.find(b => b.label === h.label);
+    return prev && prev.status !== h.status ? [{ label: h.label, from: prev.status, to: h.status }] : [];
+  });
+
+  const parts: string[] = [];
+  parts.push(Math.abs(riskDelta) < 2 ? 'Regional risk is unchanged' : `Regional risk ${riskDelta > 0 ? 'rose' : 'fell'} ${Math.abs(riskDelta).toFixed(0)} pts`);
+  if (openAlertsDelta !== 0) parts.push(`${plural(Math.abs(openAlertsDelta), 'open alert')} ${openAlertsDelta > 0 ? 'more' : 'fewer'}`);
+  const worsened = statusChanges.filter(c => STATUS_RANK[c.to] > STATUS_RANK[c.from]);
+  if (worsened.length > 0) parts.push(`${worsened.map(c => c.label).join(', ')} deteriorated`);
+  const improved = statusChanges.filter(c => STATUS_RANK[c.to] < STATUS_RANK[c.from]);
+  if (improved.length > 0) parts.push(`${improved.map(c => c.label).join(', ')} improved`);
+
+  return { since: baseline.generatedAt, riskDelta, actionRatioDelta, openAlertsDelta, statusChanges, summary: `${parts.join('; ')} since last sync.` };
+}
+
+/** Girdiden yapılandırılmış rapor üretir; baseline verilirse eğilim (trend) bölümü eklenir. */
+export function composeBriefing(input: AnalysisInput, baseline: SituationReport | null = null, now: Date = new Date()): SituationReport {
+  const herds = input.herds.map(h => assessHerd(h, input.alerts));
+  const ratios = herds.map(h => h.actionRatio).filter((r): r is number => r !== null);
+  const meanActionRatio = ratios.length > 0 ? ratios.reduce((a, b) => a + b, 0) / ratios.length : null;
+  const openAlerts = input.alerts.filter(a => a.status === 'open').length;
+  const riskLevel = riskLevelOf(input.globalRisk);
+
+  const counts = (status: HerdStatus) => herds.filter(h => h.status === status).length;
+  const flagged = counts('critical') + counts('watch');
+  const headline = herds.length === 0
+    ? 'No herds under observation.'
+    : riskLevel === 'high'
+      ? `High regional risk: ${plural(counts('critical'), 'herd')} critical, ${plural(input.encounters.length, 'predicted encounter')}.`
+      : riskLevel === 'elevated' && flagged > 0
+        ? `Elevated risk: ${flagged} of ${herds.length} herds deviating from least-action routes.`
+        : riskLevel === 'elevated'
+          ? `Elevated risk: herds on course, pressure from ${input.encounters.length > 0 ? plural(input.encounters.length, 'predicted encounter') : 'field conditions'}.`
+          : `Stable: ${herds.length - flagged} of ${herds.length} herds tracking least-action routes.`;
+
+  const summary = [
+    `${MONTH_LABELS[input.month - 1]} field: NDVI ${input.climate.ndvi.toFixed(2)}, surface ${input.climate.lst.toFixed(1)}°C.`,
+    meanActionRatio !== null ? `Observed movement spends ${meanActionRatio.toFixed(2)}× the least action.` : 'No admissible least-action route to compare against.',
+    counts('stalled') > 0 ? `${plural(counts('stalled'), 'herd')} without a reachable water source.` : '',
+    input.encounters.length > 0
+      ? `Closest predicted encounter: ${input.encounters.reduce((a, b) => (b.severity > a.severity ? b : a)).labels.join(' × ')}.`
+      : ''
+  ].filter(Boolean).join(' ');
+
+  const report = {
+    generatedAt: now.toISOString(),
+    backend: 'template',
+    month: input.month,
+    riskLevel,
+    globalRisk: input.globalRisk,
+    headline,
+    summary,
+    meanActionRatio,
+    openAlerts,
+    herds,
+    hotspots: input.hotspots.map(describeHotspot)
+  };
+  return { ...report, trend: baseline ? compareWith(report, baseline) : null };
+}
@@ -0,0 +1,121 @@
+import type { CalibrationReport, CalibrationStep } from '../engine/calibration';
+import type { EnsembleResult } from '../engine/ensemble';
+import {
+  requestTransferables,
+  type CalibrateRequest, type CompareRequest, type HerdSolution, type ScenarioComparison, type SolveRequest, type SolverMessage, type WorkerRequest
+} from '../engine/solver';
+
+/**
+ * PhysicsEngine çözümlerini Web Worker'a taşıyan istemci. Aynı anda tek istek canlıdır:
+ * yeni bir solve() / compare() / calibrate() öncekini iptal eder, eski isteğin geç gelen mesajları yok sayılır.
+ */
+
+export interface SolveHandlers {
+  onField: (field: Float64Array) => void;
+  onHerd: (index: number, total: number, herd: HerdSolution) => void;
+  onEnsemble?: (result: EnsembleResult) => void;
+  onDone?: () => void;
+  onError?: (message: string) => void;
+}
+
+export interface CompareHandlers {
+  onComparison: (comparison: ScenarioComparison) => void;
+  onError?: (message: string) => void;
+}
+
+export interface CalibrateHandlers {
+  onStep: (step: CalibrationStep, iterations: number) => void;
+  onCalibrated: (report: CalibrationReport, bias: Float64Array) => void;
+  onError?: (message: string) => void;
+}
+
+interface ActiveRequest {
+  requestId: number;
+  dispatch: (message: SolverMessage) => void; // 'error' dışındaki mesajlar
+  onError?: (message: string) => void;
+}
+
+export const createEngineWorker = () =>
+  new Worker(new URL('../engine/solver.worker.ts', import.meta.url), { type: 'module' });
+
+export class EngineWorkerClient {
+  private worker: Worker;
+  private seq = 0;
+  private active: ActiveRequest | null = null;
+
+  constructor(worker: Worker = createEngineWorker()) {
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<SolverMessage>) => this.receive(event.data);
+    this.worker.onerror = (event) => {
+      const active = this.active;
+      this.active = null;
+      active?.onError?.(event.message || 'Engine worker failed');
+    };
+  }
+
+  /**
+   * Alanı ve sürü rotalarını çözdürür. request'teki typed array'lerin sahipliği
+   * worker'a geçer (gönderimden sonra boşalırlar). Dönen fonksiyon isteği iptal eder.
+   */
+  solve(request: Omit<SolveRequest, 'requestId'>, handlers: SolveHandlers): () => void {
+    return this.start(requestId => ({ type: 'solve', request: { ...request, requestId } }), handlers.onError, message => {
+      switch (message.type) {
+        case 'field': handlers.onField(message.field); break;
+        case 'herd': handlers.onHerd(message.index, message.total, message.herd); break;
+        case 'ensemble': handlers.onEnsemble?.(message.result); break;
+        case 'done': handlers.onDone?.(); break;
+      }
+    });
+  }
+
+  /** İki senaryoyu worker'da koşturup karşılaştırır; iptal ve sahiplik kuralları solve() ile aynıdır. */
+  compare(request: Omit<CompareRequest, 'requestId'>, handlers: CompareHandlers): () => void {
+    return this.start(requestId => ({ type: 'compare', request: { ...request, requestId } }), handlers.onError, message => {
+      if (message.type === 'comparison') handlers.onComparison(message.comparison);
+    });
+  }
+
+  /** İzlerden bias öğrenip ağırlıkları kalibre ettirir; her tur onStep ile bildirilir. */
+  calibrate(request: Omit<CalibrateRequest, 'requestId'>, handlers: CalibrateHandlers): () => void {
+    return this.start(requestId => ({ type: 'calibrate', request: { ...request, requestId } }), handlers.onError, message => {
+      if (message.type === 'calibration-step') handlers.onStep(message.step, message.iterations);
+      else if (message.type === 'calibration') handlers.onCalibrated(message.report, message.bias);
+    });
+  }
+
+  cancel() {
+    if (!this.active) return;
+    this.post({ type: 'cancel', requestId: this.active.requestId });
+    this.active = null;
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker.terminate();
+  }
+
+  private start(
+    build: (requestId: number) => Extract<WorkerRequest, { request: unknown }>,
+    onError: ((message: string) => void) | undefined,
+    dispatch: (message: SolverMessage) => void
+  ): () => void {
+    this.cancel();
+    const requestId = ++this.seq;
+    const message = build(requestId);
+    this.active = { requestId, dispatch, onError };
+    this.post(message, requestTransferables(message.request));
+    return () => { if (this.active?.requestId === requestId) this.cancel(); };
+  }
+
+  private post(message: WorkerRequest, transfer: ArrayBuffer[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private receive(message: SolverMessage) {
+    if (!this.active || message.requestId !== this.active.requestId) return; // eski istekten kalan mesaj
+    const active = this.active;
+    if (message.type === 'done' || message.type === 'error') this.active = null;
+    if (message.type === 'error') active.onError?.(message.message);
+    else active.dispatch(message);
+  }
+}
@@ -1,2 +1,31 @@
-export const getAlgorithmAnalysis = async (data: any) => "Telemetry analyzed: Path deviation within normal limits.";
+import { composeBriefing, type AnalysisInput, type SituationReport } from './briefing';
+
+/**
+ * Analiz backend'i: varsayılan şablon üreticisi çevrimdışı çalışır. Bir LLM backend'i
+ * setAnalysisBackend ile takılabilir; hata verirse rapor şablondan üretilir.
+ */
+export interface AnalysisBackend {
+  name: string;
+  analyze: (input: AnalysisInput, baseline: SituationReport | null) => Promise<SituationReport>;
+}
+
+export const templateBackend: AnalysisBackend = {
+  name: 'template',
+  analyze: async (input, baseline) => composeBriefing(input, baseline)
+};
+
+let backend: AnalysisBackend = templateBackend;
+
+export const setAnalysisBackend = (next: AnalysisBackend | null) => { backend = next ?? templateBackend; };
+
+export const getAlgorithmAnalysis = async (input: AnalysisInput, baseline: SituationReport | null = null): Promise<SituationReport> => {
+  if (backend === templateBackend) return templateBackend.analyze(input, baseline);
+  try {
+    return await backend.analyze(input, baseline);
+  } catch (e) {
+    console.warn(`Analysis backend "${backend.name}" failed, using template`, e);
+    return templateBackend.analyze(input, baseline);
+  }
+};
+
 export const generateBriefingAudio = async (text: string) => { console.log("Audio generated"); };
@@ -0,0 +1,84 @@
+import { BOR_SECTOR, GeoProjection } from '../engine/geo';
+import { createRng } from '../engine/random';
+import { UPDATE_PATH, type UpdatePayload } from './apiClient';
+
+/**
+ * Python/GEE backend'i olmadan çalışmak için `/api/v1/update` sahte yanıtları.
+ * Aynı fixture'lar tarayıcıda (createMockFetch) ve Node'da (mockServer.ts) kullanılır.
+ */
+
+export const MOCK_BASE_URL = 'mock://local';
+
+export type MockScenario = 'default' | 'legacy' | 'cloudy' | 'malformed' | 'server-error';
+
+export interface MockResponse {
+  status: number;
+  body: string;
+}
+
+// main.py'deki Bor kampları (lat, lon, VIIRS parlaklığı)
+const CAMPS = [
+  { lat: 6.2045, lon: 31.5543, intensity: 350.5 },
+  { lat: 6.3122, lon: 31.6210, intensity: 338.2 },
+  { lat: 6.1150, lon: 31.4890, intensity: 362.9 }
+];
+
+/**
+ * 48×64 NDWI benzeri matris: batıda nehir koridoru, doğuda kuru düzlük.
+ * tick her çağrıda biraz kayar, böylece ardışık senkronizasyonlar arasında fark görülür.
+ */
+export function mockMatrix(tick: number = 0, cloudFraction: number = 0, rows: number = 48, cols: number = 64): (number | null)[][] {
+  const rng = createRng(1000 + tick);
+  return Array(rows).fill(0).map((_, r) => Array(cols).fill(0).map((_, c) => {
+    if (cloudFraction > 0 && rng() < cloudFraction) return null;
+    const x = c / (cols - 1); const y = r / (rows - 1);
+    const river = Math.exp(-Math.pow((x - (0.2 + 0.1 * Math.sin(y * Math.PI))) / 0.08, 2));
+    const seasonal = 0.05 * Math.sin((tick / 6) * Math.PI);
+    return Number((0.25 + 0.5 * river + 0.2 * (1 - x) * (1 - y) + seasonal + 0.03 * (rng() - 0.5)).toFixed(4));
+  }));
+}
+
+export function mockPayload(tick: number = 0, scenario: MockScenario = 'default'): UpdatePayload {
+  const projection = new GeoProjection(BOR_SECTOR);
+  const payload: UpdatePayload = {
+    ndvi_matrix: mockMatrix(tick, scenario === 'cloudy' ? 0.35 : 0),
+    conflicts: CAMPS.map(({ lat, lon, intensity }) => {
+      const { x, y } = projection.toPoint({ lat, lon });
+      return { lat, lon, x: Number(x.toFixed(4)), y: Number(y.toFixed(4)), intensity };
+    }),
+    current_ndvi: 0.44,
+    current_temp: 37.8,
+    location_id: 'South_Sudan_Bor_Sector',
+    aoi_bounds: BOR_SECTOR
+  };
+  // Eski backend: aoi_bounds ve lat/lon yok, yalnızca önceden izdüşürülmüş x/y
+  if (scenario === 'legacy') {
+    delete payload.aoi_bounds;
+    payload.conflicts = payload.conflicts.map(({ x, y, intensity }) => ({ x, y, intensity }));
+  }
+  return payload;
+}
+
+export function mockResponse(tick: number = 0, scenario: MockScenario = 'default'): MockResponse {
+  if (scenario === 'server-error') return { status: 503, body: JSON.stringify({ detail: 'GEE quota exceeded' }) };
+  if (scenario === 'malformed') return { status: 200, body: JSON.stringify({ ...mockPayload(tick), ndvi_matrix: [[0.5, 'x'], [0.4, 0.3]] }) };
+  return { status: 200, body: JSON.stringify(mockPayload(tick, scenario)) };
+}
+
+export interface MockFetchOptions {
+  scenario?: MockScenario;
+  latencyMs?: number;
+}
+
+/** fetch yerine geçen sahte uygulama; her çağrı tick'i bir artırır. */
+export function createMockFetch(options: MockFetchOptions = {}): typeof fetch {
+  const { scenario = 'default', latencyMs = 120 } = options;
+  let tick = 0;
+  return (async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    if (!url.endsWith(UPDATE_PATH)) return new Response('Not found', { status: 404 });
+    const { status, body } = mockResponse(tick++, scenario);
+    return new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+}
@@ -0,0 +1,23 @@
+import type { PhysicsEngine } from '../engine/physics';
+import { parseModel, serializeModel, type EngineModel } from '../engine/model';
+import { downloadText } from './reportExport';
+import { readStored } from './storage';
+
+const STORAGE_KEY = 'cattle-eye.physics-model';
+
+export const saveModel = (engine: PhysicsEngine) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeModel(engine));
+  } catch (e) {
+    console.warn('Model could not be persisted', e);
+  }
+};
+
+export const loadStoredModel = (): EngineModel | null => readStored(STORAGE_KEY, parseModel);
+
+export const clearStoredModel = () => localStorage.removeItem(STORAGE_KEY);
+
+export const downloadModel = (engine: PhysicsEngine, fileName: string = 'cattle-eye-model.json') =>
+  downloadText(serializeModel(engine), fileName, 'application/json');
+
+export const readModelFile = async (file: File): Promise<EngineModel> => parseModel(await file.text());
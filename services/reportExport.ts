@@ -0,0 +1,175 @@
+import type { Alert } from '../engine/anomaly';
+import { formatLatLon, type GeoProjection } from '../engine/geo';
+import type { Incident } from '../engine/incidents';
+import { isTimedPoint, type PhysicsMetrics, type Point } from '../engine/physics';
+import { MONTH_LABELS } from '../engine/season';
+import type { HerdReport, SituationReport } from './briefing';
+
+/**
+ * Durum raporu dışa aktarımı: yazdırılabilir HTML (tarayıcıdan PDF), GeoJSON
+ * FeatureCollection ve sürü başına PhysicsMetrics CSV'si. Ortak kuruluşlar (IOM, ESA)
+ * bu çıktıları doğrudan tüketebilir.
+ */
+
+export interface HerdExport {
+  id: number;
+  label: string;
+  source: 'track' | 'synthetic';
+  ideal: Point[];
+  observed: Point[];
+  metrics: PhysicsMetrics;
+}
+
+export interface ReportSnapshot {
+  report: SituationReport;
+  herds: HerdExport[];
+  alerts: Alert[];
+  incidents: Incident[];
+  projection: GeoProjection;
+  mapImage: string | null;  // MapCanvas'ın data URL anlık görüntüsü
+  takenAt: string;
+}
+
+const round = (v: number, digits: number = 5) => Number(v.toFixed(digits));
+
+const lonLat = (p: Point, projection: GeoProjection): [number, number] => {
+  const { lat, lon } = projection.toLatLon(p);
+  return [round(lon), round(lat)];
+};
+
+/** Rapora ve GeoJSON özelliklerine giren skaler metrikler (dizi alanları hariç). */
+const metricProperties = (m: PhysicsMetrics) => ({
+  action: round(m.s, 4),
+  entropy: round(m.entropy, 4),
+  naturalness: round(m.naturalness, 2),
+  predictiveError: round(m.predictiveError, 4),
+  distanceKm: round(m.totalDistanceKm, 2),
+  dwellH: round(m.dwellH, 2),
+  segments: m.segments.length
+});
+
+const herdReportOf = (snapshot: ReportSnapshot, id: number): HerdReport | undefined => snapshot.report.herds.find(h => h.id === id);
+
+export function toGeoJson(snapshot: ReportSnapshot) {
+  const { projection } = snapshot;
+  const features: object[] = [];
+
+  snapshot.incidents.forEach(inc => features.push({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: lonLat(inc, projection) },
+    properties: {
+      kind: 'incident', id: inc.id, type: inc.type, severity: inc.severity, source: inc.source,
+      time: new Date(inc.time).toISOString(), halfLifeH: inc.halfLifeH,
+      ...(inc.intensity !== undefined ? { intensity: inc.intensity } : {})
+    }
+  }));
+
+  snapshot.herds.forEach(herd => {
+    const status = herdReportOf(snapshot, herd.id);
+    const shared = { herd: herd.label, source: herd.source, status: status?.status ?? null, actionRatio: status?.actionRatio ?? null };
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: herd.ideal.map(p => lonLat(p, projection)) },
+      properties: { kind: 'ideal', ...shared }
+    });
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: herd.observed.map(p => lonLat(p, projection)) },
+      properties: {
+        kind: 'observed', ...shared, ...metricProperties(herd.metrics),
+        // GPX/GeoJSON araçlarının tanıdığı zaman dizisi
+        ...(herd.observed.every(isTimedPoint) ? { coordTimes: herd.observed.map(p => new Date(p.time).toISOString()) } : {})
+      }
+    });
+  });
+
+  snapshot.alerts.filter(a => a.status !== 'dismissed').forEach(a => features.push({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: lonLat(a.location, projection) },
+    properties: { kind: 'alert', id: a.id, herd: a.herdLabel, reason: a.reason, severity: a.severity, score: round(a.score, 3), status: a.status }
+  }));
+
+  return {
+    type: 'FeatureCollection',
+    properties: { generatedAt: snapshot.report.generatedAt, month: snapshot.report.month, globalRisk: round(snapshot.report.globalRisk, 1) },
+    features
+  };
+}
+
+const csvCell = (v: unknown) => {
+  const s = v === null || v === undefined ? '' : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function metricsCsv(snapshot: ReportSnapshot): string {
+  const header = ['herd', 'source', 'status', 'actionRatio', 'action', 'entropy', 'naturalness', 'predictiveError', 'distanceKm', 'dwellH', 'segments', 'points', 'openAlerts'];
+  const rows = snapshot.herds.map(herd => {
+    const status = herdReportOf(snapshot, herd.id);
+    const m = metricProperties(herd.metrics);
+    return [
+      herd.label, herd.source, status?.status, status?.actionRatio !== null && status?.actionRatio !== undefined ? round(status.actionRatio, 3) : '',
+      m.action, m.entropy, m.naturalness, m.predictiveError, m.distanceKm, m.dwellH, m.segments, herd.observed.length, status?.openAlerts ?? 0
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+/** Tek dosyalık, yazdırılabilir brifing (dış kaynak yok; harita data URL olarak gömülür). */
+export function renderReportHtml(snapshot: ReportSnapshot, autoPrint: boolean = false): string {
+  const { report, projection } = snapshot;
+  const herdRows = snapshot.herds.map(herd => {
+    const status = herdReportOf(snapshot, herd.id);
+    const m = metricProperties(herd.metrics);
+    return `<tr><td>${escapeHtml(herd.label)}</td><td>${status?.status ?? ''}</td><td>${status?.actionRatio != null ? status.actionRatio.toFixed(2) : '—'}</td><td>${m.distanceKm.toFixed(1)}</td><td>${m.naturalness.toFixed(0)}%</td><td>${m.entropy.toFixed(3)}</td><td>${escapeHtml(status?.note ?? '')}</td></tr>`;
+  }).join('');
+  const alertRows = snapshot.alerts.filter(a => a.status !== 'dismissed').map(a =>
+    `<tr><td>${escapeHtml(a.herdLabel)}</td><td>${a.reason}</td><td>${a.severity}</td><td>${a.score.toFixed(2)}</td><td>${formatLatLon(projection.toLatLon(a.location), 3)}</td><td>${a.time !== null ? new Date(a.time).toISOString() : '—'}</td><td>${a.status}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><title>Cattle-Eye Situation Report ${escapeHtml(report.generatedAt)}</title>
+<style>
+body{font:13px/1.5 system-ui,sans-serif;color:#0f172a;margin:32px;max-width:960px}
+h1{font-size:22px;margin:0}h2{font-size:14px;text-transform:uppercase;letter-spacing:.1em;margin-top:28px;border-bottom:1px solid #cbd5e1}
+.meta{color:#64748b;font-size:11px}.headline{font-size:16px;font-weight:700}
+.risk-high{color:#e11d48}.risk-elevated{color:#d97706}.risk-low{color:#059669}
+table{border-collapse:collapse;width:100%;font-size:11px}th,td{border-bottom:1px solid #e2e8f0;padding:4px 6px;text-align:left}
+img{width:100%;border:1px solid #cbd5e1}
+@media print{body{margin:12mm}h2{break-after:avoid}table,img{break-inside:avoid}}
+</style></head><body>
+<h1>Cattle-Eye Situation Report</h1>
+<p class="meta">Generated ${escapeHtml(report.generatedAt)} · ${MONTH_LABELS[report.month - 1]} · ${escapeHtml(report.backend)} analysis · map snapshot ${escapeHtml(snapshot.takenAt)}</p>
+<p class="headline risk-${report.riskLevel}">${escapeHtml(report.headline)}</p>
+<p>Regional Risk Index: <strong>${report.globalRisk.toFixed(0)}%</strong> (${report.riskLevel}) · Mean action ratio: <strong>${report.meanActionRatio !== null ? report.meanActionRatio.toFixed(2) + ':1' : '—'}</strong></p>
+<p>${escapeHtml(report.summary)}</p>
+${report.trend ? `<p><em>${escapeHtml(report.trend.summary)}</em></p>` : ''}
+${snapshot.mapImage ? `<h2>Map</h2><img src="${snapshot.mapImage}" alt="Tactical map snapshot">` : ''}
+<h2>Herds</h2>
+<table><thead><tr><th>Herd</th><th>Status</th><th>Action ratio</th><th>Distance (km)</th><th>Stability</th><th>Entropy</th><th>Note</th></tr></thead><tbody>${herdRows}</tbody></table>
+${report.hotspots.length > 0 ? `<h2>Risk Hotspots</h2><ol>${report.hotspots.map(h => `<li>${escapeHtml(h)}</li>`).join('')}</ol>` : ''}
+<h2>Alerts</h2>
+${alertRows ? `<table><thead><tr><th>Herd</th><th>Reason</th><th>Severity</th><th>Score</th><th>Location</th><th>Time</th><th>Status</th></tr></thead><tbody>${alertRows}</tbody></table>` : '<p>No active alerts.</p>'}
+${autoPrint ? '<script>window.onload = () => window.print();</script>' : ''}
+</body></html>`;
+}
+
+export const downloadText = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url; a.download = fileName; a.click();
+  // Revoking right after click() can cancel the download in some browsers; give it time to start
+  setTimeout(() => URL.revokeObjectURL(url), 30_000);
+};
+
+/** HTML raporu yeni pencerede açar ve yazdırma diyaloğunu başlatır ("PDF olarak kaydet"). */
+export const printReport = (snapshot: ReportSnapshot): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false; // açılır pencere engellendi
+  win.document.write(renderReportHtml(snapshot, true));
+  win.document.close();
+  return true;
+};
+
+export const reportFileName = (snapshot: ReportSnapshot, ext: string) =>
+  `cattle-eye-report-${snapshot.report.generatedAt.slice(0, 16).replace(/[:T]/g, '-')}.${ext}`;
@@ -0,0 +1,20 @@
+import { parseScenarios, serializeScenarios, type Scenario } from '../engine/scenario';
+import { downloadText } from './reportExport';
+import { readStored } from './storage';
+
+const STORAGE_KEY = 'cattle-eye.scenarios';
+
+export const saveScenarios = (scenarios: Scenario[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeScenarios(scenarios));
+  } catch (e) {
+    console.warn('Scenarios could not be persisted', e);
+  }
+};
+
+export const loadStoredScenarios = (): Scenario[] => readStored(STORAGE_KEY, parseScenarios) ?? [];
+
+export const downloadScenarios = (scenarios: Scenario[], fileName: string = 'cattle-eye-scenarios.json') =>
+  downloadText(serializeScenarios(scenarios), fileName, 'application/json');
+
+export const readScenarioFile = async (file: File): Promise<Scenario[]> => parseScenarios(await file.text());
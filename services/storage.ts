@@ -0,0 +1,19 @@
+/**
+ * localStorage üzerindeki kalıcı girdiler için ortak okuma.
+ */
+
+/**
+ * key altındaki JSON'u parse ile okur; girdi yoksa null döner. Eskimiş ya da bozuk
+ * girdi silinir ve null döner, böylece her sayfa yüklemesi aynı hatayla başarısız olmaz.
+ */
+export function readStored<T>(key: string, parse: (json: string) => T): T | null {
+  const json = localStorage.getItem(key);
+  if (!json) return null;
+  try {
+    return parse(json);
+  } catch (e) {
+    console.warn(`Discarding stored entry "${key}"`, e);
+    localStorage.removeItem(key);
+    return null;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Uydu bağlantısı senkronizasyon günlüğü: her denemenin süresi, boyutu ve sonucu,
+ * otomatik senkronizasyon için üstel geri çekilme (exponential backoff) ve
+ * ardışık NDVI matrisleri arasındaki fark.
+ */
+
+export type LinkStatus = 'idle' | 'syncing' | 'live' | 'offline' | 'error';
+
+export interface SyncLogEntry {
+  id: number;
+  at: string;                                   // ISO zaman damgası (istek başlangıcı)
+  latencyMs: number;                            // İstek + gövde okuma süresi
+  bytes: number | null;                         // Yanıt gövdesi (UTF-8 bayt)
+  rawDims: { rows: number; cols: number } | null; // Backend'in gönderdiği ndvi_matrix boyutu
+  conflicts: number | null;
+  status: 'ok' | 'offline' | 'error';
+  error: string | null;
+  matrix: number[][] | null;                    // Grid boyutuna örneklenmiş matris (önizleme / fark)
+}
+
+export interface SyncPolicy {
+  enabled: boolean;
+  intervalS: number;    // Başarılı senkronizasyonlar arası süre
+  maxBackoffS: number;  // Ardışık hatalarda beklemenin üst sınırı
+}
+
+export const DEFAULT_SYNC_POLICY: SyncPolicy = { enabled: false, intervalS: 60, maxBackoffS: 900 };
+
+export const MAX_LOG_ENTRIES = 50;
+
+export interface MatrixDiff {
+  delta: number[][];       // current - previous
+  meanAbs: number;
+  maxAbs: number;
+  changedFraction: number; // |delta| > threshold olan hücre oranı
+}
+
+/** Sondan başlayarak kesintisiz başarısız deneme sayısı. */
+export const consecutiveFailures = (log: SyncLogEntry[]) => {
+  let n = 0;
+  for (let i = log.length - 1; i >= 0 && log[i].status !== 'ok'; i--) n++;
+  return n;
+};
+
+/** Sonraki denemeye kadar bekleme: interval × 2^hata, maxBackoffS ile sınırlı. */
+export const nextSyncDelayMs = (policy: SyncPolicy, failures: number) =>
+  Math.min(policy.maxBackoffS, policy.intervalS * Math.pow(2, failures)) * 1000;
+
+export const appendLog = (log: SyncLogEntry[], entry: SyncLogEntry) => [...log, entry].slice(-MAX_LOG_ENTRIES);
+
+export function diffMatrices(current: number[][], previous: number[][], threshold: number = 0.02): MatrixDiff | null {
+  if (current.length !== previous.length || current[0]?.length !== previous[0]?.length) return null;
+  let sum = 0; let maxAbs = 0; let changed = 0;
+  const delta = current.map((row, r) => row.map((v, c) => {
+    const d = v - previous[r][c];
+    const a = Math.abs(d);
+    sum += a; maxAbs = Math.max(maxAbs, a);
+    if (a > threshold) changed++;
+    return d;
+  }));
+  const cells = current.length * current[0].length;
+  return { delta, meanAbs: sum / cells, maxAbs, changedFraction: changed / cells };
+}
@@ -0,0 +1,37 @@
+import { PhysicsEngine } from '../engine/physics';
+import { importTracks } from './trackImport';
+
+/**
+ * İçe aktarım denetimi: 2 günlük tasma kesintisi olan bir iz yeniden örneklenirken boşluk
+ * köprülenmemeli ve computePhysics iki segment görmeli; damgasız nokta gerçek zamanları bozmamalı.
+ *   npx tsx services/trackImport.check.ts
+ */
+
+const HOUR = 3_600_000;
+const T0 = Date.parse('2024-02-01T06:00:00Z');
+const fix = (h: number | null, lat: number, lon: number) => `collar-7,${h === null ? '' : new Date(T0 + h * HOUR).toISOString()},${lat},${lon}`;
+
+// 0-5 sa yürüyüş, 53-58 sa (2 gün sonra) başka bir yerde yürüyüş; 3. satırın zamanı eksik
+const CSV = [
+  'id,timestamp,lat,lon',
+  fix(0, 6.70, 31.40), fix(1, 6.71, 31.41), fix(null, 6.72, 31.42), fix(3, 6.73, 31.43), fix(4, 6.74, 31.44), fix(5, 6.75, 31.45),
+  fix(53, 6.90, 31.70), fix(54, 6.91, 31.71), fix(55, 6.92, 31.72), fix(56, 6.93, 31.73), fix(57, 6.94, 31.74), fix(58, 6.95, 31.75)
+].join('\n');
+
+async function main() {
+  const engine = new PhysicsEngine(64, 48);
+  const [track] = await importTracks(new File([CSV], 'collar-7.csv', { type: 'text/csv' }), engine.timing.maxGapH);
+  const times = track.fixes.map(f => (f.time - T0) / HOUR);
+  console.log(`${track.fixes.length} resampled fixes at hours ${times.join(', ')}`);
+
+  if (track.fixes[0].time !== T0) throw new Error(`Track should start at its first timestamp, got ${new Date(track.fixes[0].time).toISOString()}`);
+  if (times.some(h => h > 5 && h < 53)) throw new Error('Resampling interpolated across the 2-day gap');
+
+  const stats = engine.computePhysics(track.fixes.map(f => ({ ...engine.projection.toPoint(f), time: f.time })));
+  console.log(`segments: ${stats.segments.map(sg => `${sg.start}-${sg.end} (${sg.durationH} h, ${sg.distanceKm.toFixed(1)} km)`).join(', ')}`);
+  if (stats.segments.length !== 2) throw new Error(`Expected 2 segments, computePhysics reported ${stats.segments.length}`);
+  if (stats.segments.some(sg => sg.durationH !== 5)) throw new Error('Each segment should span 5 h of recorded movement');
+  console.log('track import check passed');
+}
+
+main().catch(err => { console.error(err); process.exit(1); });
@@ -0,0 +1,184 @@
+import type { LatLon } from '../engine/geo';
+
+/**
+ * GPS / tasma (collar) izlerini içe aktarır: GPX, GeoJSON (LineString/Point) ve
+ * CSV (id, timestamp, lat, lon). Noktalar sürü başına gruplanır ve sabit zaman
+ * adımına yeniden örneklenir; uzun kayıt boşlukları enterpole edilmez.
+ */
+
+export interface TrackFix extends LatLon {
+  time: number; // epoch ms
+}
+
+export interface HerdTrack {
+  id: string;
+  fixes: TrackFix[]; // Zamana göre sıralı
+}
+
+export type TrackFormat = 'gpx' | 'geojson' | 'csv';
+
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackImportError';
+  }
+}
+
+const parseTime = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw < 1e11 ? raw * 1000 : raw; // saniye veya ms
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    const asNum = Number(raw);
+    if (!Number.isNaN(asNum)) return parseTime(asNum);
+    const t = Date.parse(raw);
+    if (!Number.isNaN(t)) return t;
+  }
+  return NaN;
+};
+
+const isValidFix = (f: TrackFix) =>
+  Number.isFinite(f.lat) && Number.isFinite(f.lon) && Math.abs(f.lat) <= 90 && Math.abs(f.lon) <= 180;
+
+/**
+ * Zaman damgası olmayan noktalar dosya sırasında zamanlı komşularının arasına doğrusal
+ * yerleştirilir; baştaki / sondaki damgasız noktalar atılır. Gerçek damgalara dokunulmaz.
+ */
+function fillMissingTimes(fixes: TrackFix[]): TrackFix[] {
+  const timed = fixes.map((f, i) => (Number.isFinite(f.time) ? i : -1)).filter(i => i >= 0);
+  if (timed.length === 0) return [];
+  const out: TrackFix[] = [];
+  for (let k = 0; k + 1 < timed.length; k++) {
+    const a = timed[k]; const b = timed[k + 1];
+    out.push(fixes[a]);
+    for (let i = a + 1; i < b; i++) {
+      out.push({ ...fixes[i], time: fixes[a].time + (fixes[b].time - fixes[a].time) * (i - a) / (b - a) });
+    }
+  }
+  out.push(fixes[timed[timed.length - 1]]);
+  return out;
+}
+
+/** Aynı id'ye sahip noktaları birleştirir, eksik zamanları doldurur, zamana göre sıralar, geçersizleri atar. */
+function groupFixes(entries: { id: string; fix: TrackFix }[]): HerdTrack[] {
+  const groups = new Map<string, TrackFix[]>();
+  entries.forEach(({ id, fix }) => {
+    if (!isValidFix(fix)) return;
+    if (!groups.has(id)) groups.set(id, []);
+    groups.get(id)!.push(fix);
+  });
+  return [...groups.entries()]
+    .map(([id, fixes]) => ({ id, fixes: fillMissingTimes(fixes).sort((a, b) => a.time - b.time) }))
+    .filter(track => track.fixes.length >= 2);
+}
+
+export function parseGpx(text: string): HerdTrack[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new TrackImportError('GPX file is not valid XML');
+
+  const entries: { id: string; fix: TrackFix }[] = [];
+  Array.from(doc.getElementsByTagName('trk')).forEach((trk, i) => {
+    const id = trk.getElementsByTagName('name')[0]?.textContent?.trim() || `trk-${i + 1}`;
+    Array.from(trk.getElementsByTagName('trkpt')).forEach(pt => {
+      entries.push({ id, fix: {
+        lat: parseFloat(pt.getAttribute('lat') ?? ''),
+        lon: parseFloat(pt.getAttribute('lon') ?? ''),
+        time: parseTime(pt.getElementsByTagName('time')[0]?.textContent)
+      } });
+    });
+  });
+  return groupFixes(entries);
+}
+
+export function parseGeoJson(text: string): HerdTrack[] {
+  let json: any;
+  try { json = JSON.parse(text); } catch { throw new TrackImportError('GeoJSON file is not valid JSON'); }
+
+  const features: any[] = json?.type === 'FeatureCollection' ? json.features ?? []
+    : json?.type === 'Feature' ? [json] : [];
+  if (features.length === 0) throw new TrackImportError('GeoJSON has no features');
+
+  const entries: { id: string; fix: TrackFix }[] = [];
+  features.forEach((f, i) => {
+    const props = f?.properties ?? {};
+    const id = String(props.id ?? props.herd_id ?? props.name ?? f?.id ?? `feature-${i + 1}`);
+    const geom = f?.geometry;
+    if (geom?.type === 'LineString') {
+      // togeojson'ın coordTimes alanı veya eşdeğer bir zaman dizisi
+      const times: unknown[] = props.coordTimes ?? props.times ?? props.timestamps ?? [];
+      geom.coordinates.forEach(([lon, lat]: number[], j: number) => {
+        entries.push({ id, fix: { lat, lon, time: parseTime(times[j]) } });
+      });
+    } else if (geom?.type === 'Point') {
+      const [lon, lat] = geom.coordinates;
+      entries.push({ id, fix: { lat, lon, time: parseTime(props.timestamp ?? props.time) } });
+    }
+  });
+  return groupFixes(entries);
+}
+
+export function parseCsv(text: string): HerdTrack[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l !== '');
+  if (lines.length < 2) throw new TrackImportError('CSV has no data rows');
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const idx = { id: col('id', 'herd_id', 'herd'), time: col('timestamp', 'time', 'datetime'), lat: col('lat', 'latitude'), lon: col('lon', 'lng', 'longitude') };
+  if (Object.values(idx).some(i => i < 0)) throw new TrackImportError('CSV header must contain id, timestamp, lat, lon');
+
+  return groupFixes(lines.slice(1).map(line => {
+    const cells = line.split(',').map(c => c.trim());
+    return { id: cells[idx.id], fix: { lat: parseFloat(cells[idx.lat]), lon: parseFloat(cells[idx.lon]), time: parseTime(cells[idx.time]) } };
+  }));
+}
+
+export function detectFormat(fileName: string, text: string): TrackFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'gpx') return 'gpx';
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'csv') return 'csv';
+  const head = text.trimStart();
+  if (head.startsWith('<')) return 'gpx';
+  if (head.startsWith('{')) return 'geojson';
+  return 'csv';
+}
+
+/** Tek bir kesintisiz parçayı sabit adımlı zaman serisine çevirir (doğrusal enterpolasyon). */
+function resampleSegment(fixes: TrackFix[], stepMs: number): TrackFix[] {
+  const t0 = fixes[0].time; const t1 = fixes[fixes.length - 1].time;
+  if (t1 <= t0) return [fixes[0]];
+
+  const out: TrackFix[] = [];
+  let j = 0;
+  for (let t = t0; t <= t1; t += stepMs) {
+    while (j < fixes.length - 2 && fixes[j + 1].time < t) j++;
+    const a = fixes[j]; const b = fixes[j + 1];
+    const k = b.time > a.time ? Math.min(1, Math.max(0, (t - a.time) / (b.time - a.time))) : 0;
+    out.push({ lat: a.lat + (b.lat - a.lat) * k, lon: a.lon + (b.lon - a.lon) * k, time: t });
+  }
+  return out;
+}
+
+/**
+ * İzi sabit adımlı zaman serisine çevirir. maxGapMs'ten uzun kayıt boşlukları (tasma kesintisi)
+ * köprülenmez: iz orada parçalara bölünür ve her parça ayrı örneklenir, böylece boşluk
+ * computePhysics'te yeni segment olarak kalır.
+ */
+export function resampleTrack(track: HerdTrack, stepMs: number, maxGapMs: number = Infinity): HerdTrack {
+  const segments: TrackFix[][] = [];
+  track.fixes.forEach((fix, i) => {
+    if (i === 0 || fix.time - track.fixes[i - 1].time > maxGapMs) segments.push([]);
+    segments[segments.length - 1].push(fix);
+  });
+  return { id: track.id, fixes: segments.flatMap(segment => resampleSegment(segment, stepMs)) };
+}
+
+/**
+ * Dosyayı okuyup sürü izlerine çevirir; her iz stepMinutes aralığına örneklenir.
+ * maxGapH motorun segment eşiğidir (PhysicsEngine.timing.maxGapH).
+ */
+export async function importTracks(file: File, maxGapH: number, stepMinutes: number = 60): Promise<HerdTrack[]> {
+  const text = await file.text();
+  const format = detectFormat(file.name, text);
+  const tracks = format === 'gpx' ? parseGpx(text) : format === 'geojson' ? parseGeoJson(text) : parseCsv(text);
+  if (tracks.length === 0) throw new TrackImportError(`No usable tracks found in ${file.name} (each track needs at least two timestamped fixes)`);
+  return tracks.map(track => resampleTrack(track, stepMinutes * 60_000, maxGapH * 3_600_000));
+}